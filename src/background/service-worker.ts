@@ -2,30 +2,64 @@
  *   Copyright (c) 2025 InfoTrend Contributors
  *   All rights reserved.
  */
-import { getConfig, getLastUpdate, saveFeeds, updateLastUpdate, saveConfig, updateDataMetadata, getFeeds } from '../services/storage.ts';
+import {
+  getConfig, getLastUpdate, saveFeeds, updateLastUpdate, saveConfig, updateDataMetadata, getFeeds, saveDigest, onConfigChanged,
+} from '../services/storage.ts';
 import { fetchAllData, setForceRefresh } from '../services/dataFetcher.ts';
-import { generateSummary, APINotConfiguredError } from '../services/aiService.ts';
+import { generateSummary, generateDigest, APINotConfiguredError } from '../services/aiService.ts';
+import { migrateLegacyItemIds } from '../services/idMigration.ts';
+import { migrateLegacyStorage, runStorageMaintenance } from '../services/idbStorage.ts';
+import { archiveItems, pruneArchive, DEFAULT_ARCHIVE_RETENTION_DAYS } from '../services/archiveService.ts';
+import { applyRules, applyAutoFavorites, limitVisibleItems } from '../services/rulesService.ts';
+import { rankItems } from '../services/rankingService.ts';
+import { getTodayDateString } from '../services/freshnessService.ts';
+import { Digest } from '../types/digest';
 import { defaultSources } from '../types/index';
 import { setupDailyRefreshAlarm, ALARM_NAMES } from './alarmScheduler.ts';
+import {
+  enqueueSummaries, cancelSummaryQueue, clearSummaryQueue, resumeSummaryQueue, retrySummaryQueue,
+} from './summaryQueue.ts';
 import { logger } from '../utils/logger.ts';
 
 // Initialize on install
 chrome.runtime.onInstalled.addListener(async () => {
+  // 旧版保存在 chrome.storage.local 的 feed 和缓存迁移到 IndexedDB
+  await migrateLegacyStorage();
   await initializeData();
   await setupDailyRefreshAlarm();
 });
 
 // Check and setup alarm on browser startup
 chrome.runtime.onStartup.addListener(async () => {
+  await migrateLegacyStorage();
   await setupDailyRefreshAlarm();
 });
 
+// Resume batch summaries left unfinished when the worker was suspended
+resumeSummaryQueue().catch((error) => logger.error('[SummaryQueue] Resume failed:', error));
+
+// A queue paused by the budget or missing API settings retries after the settings change
+onConfigChanged(() => {
+  retrySummaryQueue().catch((error) => logger.error('[SummaryQueue] Retry failed:', error));
+});
+
 // Listen for alarm triggers
 chrome.alarms.onAlarm.addListener(async (alarm) => {
   if (alarm.name === ALARM_NAMES.DAILY_REFRESH) {
     setForceRefresh(true);
     await refreshData();
     setForceRefresh(false);
+
+    // 刷新完成后生成每日简报（未配置 API 时跳过）
+    try {
+      await generateDailyDigest();
+    } catch (error) {
+      if (error instanceof APINotConfiguredError) {
+        logger.info('[Digest] API not configured, skipping daily digest');
+      } else {
+        logger.error('[Digest] Daily digest generation failed:', error);
+      }
+    }
   }
 });
 
@@ -73,6 +107,41 @@ chrome.runtime.onMessage.addListener((message: any, _sender: chrome.runtime.Mess
       });
     return true;
   }
+
+  // Batch summarization queue (owned by the background worker)
+  if (message.type === 'ENQUEUE_SUMMARIES') {
+    enqueueSummaries(message.data.items).then(() => sendResponse({ success: true }));
+    return true;
+  }
+
+  if (message.type === 'CANCEL_SUMMARY_QUEUE') {
+    cancelSummaryQueue().then(() => sendResponse({ success: true }));
+    return true;
+  }
+
+  if (message.type === 'CLEAR_SUMMARY_QUEUE') {
+    clearSummaryQueue().then(() => sendResponse({ success: true }));
+    return true;
+  }
+
+  if (message.type === 'RETRY_SUMMARY_QUEUE') {
+    retrySummaryQueue().then(() => sendResponse({ success: true }));
+    return true;
+  }
+
+  // Generate today's digest on demand
+  if (message.type === 'GENERATE_DIGEST') {
+    generateDailyDigest()
+      .then((digest) => sendResponse({ success: true, digest }))
+      .catch((error) => {
+        sendResponse({
+          success: false,
+          error: error.message || 'AI digest generation failed',
+          errorType: error instanceof APINotConfiguredError ? 'API_NOT_CONFIGURED' : 'GENERATION_FAILED',
+        });
+      });
+    return true;
+  }
 });
 
 async function initializeData() {
@@ -102,12 +171,25 @@ async function initializeData() {
 async function refreshData() {
   try {
     const config = await getConfig();
-    const items = await fetchAllData(config.sources);
+    const previousItems = await getFeeds();
+    const items = await fetchAllData(config.sources, config.rules);
 
-    const limitedItems = items.slice(0, config.maxItems);
+    // 将旧版不稳定 ID 上的收藏和摘要缓存迁移到新 ID
+    await migrateLegacyItemIds(previousItems, items);
+
+    const limitedItems = limitVisibleItems(items, config.rules, config.maxItems);
+    // 命中“自动收藏”规则的条目加入收藏（被屏蔽的条目除外）
+    await applyAutoFavorites(applyRules(limitedItems, config.rules), config.rules);
     await saveFeeds(limitedItems);
     await updateLastUpdate();
     await updateDataMetadata();
+
+    // 本次抓取的全部条目（不受 maxItems 限制）写入历史归档
+    await archiveItems(items);
+    await pruneArchive(config.archiveRetentionDays ?? DEFAULT_ARCHIVE_RETENTION_DAYS);
+
+    // 清理过期缓存，超出容量时淘汰最久未访问的记录
+    await runStorageMaintenance();
   } catch (error) {
     logger.error('Refresh error:', error);
   }
@@ -139,3 +221,14 @@ async function generateSingleItemSummary(item: any): Promise<string> {
   const summary = await generateSummary(item);
   return summary;
 }
+
+// Generate and store today's digest from the hottest items
+async function generateDailyDigest(): Promise<Digest> {
+  const config = await getConfig();
+  // 存储中保留了被屏蔽的条目，精选前按规则过滤
+  const feeds = applyRules(await getFeeds(), config.rules);
+  const digest = await generateDigest(rankItems(feeds, 'hot'), getTodayDateString());
+  await saveDigest(digest);
+  logger.info(`[Digest] Generated digest for ${digest.date} with ${digest.groups.length} groups`);
+  return digest;
+}
@@ -0,0 +1,232 @@
+/*
+ *   Copyright (c) 2025 InfoTrend Contributors
+ *   All rights reserved.
+ */
+
+/**
+ * Summary Queue
+ * Background-owned batch summarization queue. State lives in chrome.storage so
+ * closing the side panel (or the worker being suspended) does not lose it.
+ */
+
+import { FeedItem } from '../types/index';
+import { SummaryQueueState, SummaryQueueStopReason, SummaryTask } from '../types/summaryQueue';
+import {
+  generateSummary, hasCachedSummary, checkBudget,
+  APINotConfiguredError, BudgetExceededError,
+} from '../services/aiService.ts';
+import { getConfig, getFeeds, saveFeeds } from '../services/storage.ts';
+import { safeStorageGet, safeStorageSet } from '../utils/chrome.ts';
+import { logger } from '../utils/logger.ts';
+
+// Storage key shared with the side panel (useSummaryQueue)
+export const SUMMARY_QUEUE_KEY = 'summary_queue';
+
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 5;
+
+let state: SummaryQueueState = { tasks: [], updatedAt: 0 };
+let loaded = false;
+let processing = false;
+// Requests dispatched but not yet recorded in the daily usage; they hold part of the budget
+let inFlight = 0;
+// Serialize dispatch so the budget check and the reservation are not interleaved between workers
+let dispatchChain: Promise<unknown> = Promise.resolve();
+// Serialize feed writes so concurrent workers don't overwrite each other
+let feedWriteChain: Promise<void> = Promise.resolve();
+
+async function loadState(): Promise<void> {
+  if (loaded) return;
+  const result = await safeStorageGet([SUMMARY_QUEUE_KEY]);
+  const stored = result[SUMMARY_QUEUE_KEY] as SummaryQueueState | undefined;
+  // Tasks left running by a suspended worker are retried
+  state = stored?.tasks
+    ? { ...stored, tasks: stored.tasks.map(task => (task.status === 'running' ? { ...task, status: 'pending' } : task)) }
+    : { tasks: [], updatedAt: 0 };
+  loaded = true;
+}
+
+async function saveState(): Promise<void> {
+  state = { ...state, updatedAt: Date.now() };
+  await safeStorageSet({ [SUMMARY_QUEUE_KEY]: state });
+}
+
+async function updateTask(id: string, updates: Partial<SummaryTask>): Promise<void> {
+  state = {
+    ...state,
+    tasks: state.tasks.map(task => (task.id === id ? { ...task, ...updates } : task)),
+  };
+  await saveState();
+}
+
+function saveSummaryToFeeds(id: string, summary: string): Promise<void> {
+  feedWriteChain = feedWriteChain
+    .then(async () => {
+      const feeds = await getFeeds();
+      if (!feeds.some(feed => feed.id === id)) return;
+      await saveFeeds(feeds.map(feed => (feed.id === id ? { ...feed, aiSummary: summary } : feed)));
+    })
+    .catch((error) => {
+      logger.error('[SummaryQueue] Failed to save summary to feeds:', error);
+    });
+  return feedWriteChain;
+}
+
+async function stop(reason: SummaryQueueStopReason): Promise<void> {
+  state = { ...state, stoppedReason: reason };
+  await saveState();
+}
+
+// Skip already summarized tasks, reserve budget for the next one and mark it running
+async function dispatchNext(): Promise<SummaryTask | null> {
+  while (!state.stoppedReason) {
+    const next = state.tasks.find(task => task.status === 'pending');
+    if (!next) return null;
+
+    if (await hasCachedSummary(next.id)) {
+      await updateTask(next.id, { status: 'skipped' });
+      continue;
+    }
+
+    try {
+      await checkBudget(inFlight);
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) throw error;
+      await stop('budget');
+      return null;
+    }
+
+    inFlight += 1;
+    await updateTask(next.id, { status: 'running' });
+    return next;
+  }
+  return null;
+}
+
+// Take the next task (one worker at a time)
+function takeNext(): Promise<SummaryTask | null> {
+  const next = dispatchChain.then(dispatchNext);
+  dispatchChain = next.catch(() => undefined);
+  return next;
+}
+
+async function runTask(task: SummaryTask): Promise<void> {
+  try {
+    const summary = await generateSummary(task.item);
+    await saveSummaryToFeeds(task.id, summary);
+    await updateTask(task.id, { status: 'done', summary });
+  } catch (error) {
+    if (error instanceof BudgetExceededError || error instanceof APINotConfiguredError) {
+      // Put the task back so it can resume once the budget or API is sorted out
+      await updateTask(task.id, { status: 'pending' });
+      await stop(error instanceof BudgetExceededError ? 'budget' : 'api_not_configured');
+      return;
+    }
+    await updateTask(task.id, {
+      status: 'error',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    // Usage is recorded before generateSummary returns, so the reservation can be released
+    inFlight -= 1;
+  }
+}
+
+/**
+ * Process pending tasks with the configured concurrency
+ */
+async function processQueue(): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    const config = await getConfig();
+    const concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, config.summaryConcurrency || DEFAULT_CONCURRENCY));
+
+    const worker = async () => {
+      let task = await takeNext();
+      while (task) {
+        await runTask(task);
+        task = await takeNext();
+      }
+    };
+    await Promise.all(Array.from({ length: concurrency }, worker));
+  } catch (error) {
+    logger.error('[SummaryQueue] Processing failed:', error);
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Add items to the queue (items already queued or running are ignored) and start processing
+ * A queue paused by the budget or API settings resumes with the new items
+ */
+export async function enqueueSummaries(items: FeedItem[]): Promise<void> {
+  await loadState();
+
+  const active = new Set(
+    state.tasks.filter(task => task.status === 'pending' || task.status === 'running').map(task => task.id)
+  );
+  // Finished tasks for the same item are replaced by the new request
+  const newIds = new Set(items.filter(item => !active.has(item.id)).map(item => item.id));
+
+  state = {
+    tasks: [
+      ...state.tasks.filter(task => !newIds.has(task.id)),
+      ...items
+        .filter(item => newIds.has(item.id))
+        .map(item => ({ id: item.id, item: { ...item, aiSummary: undefined, aiSummaryLoading: undefined }, status: 'pending' as const })),
+    ],
+    updatedAt: Date.now(),
+  };
+  await saveState();
+
+  processQueue();
+}
+
+/**
+ * Drop pending tasks; running ones finish normally
+ */
+export async function cancelSummaryQueue(): Promise<void> {
+  await loadState();
+  state = { ...state, tasks: state.tasks.filter(task => task.status !== 'pending') };
+  await stop('cancelled');
+}
+
+/**
+ * Remove finished tasks from the queue
+ */
+export async function clearSummaryQueue(): Promise<void> {
+  await loadState();
+  state = {
+    ...state,
+    tasks: state.tasks.filter(task => task.status === 'pending' || task.status === 'running'),
+  };
+  await saveState();
+}
+
+/**
+ * Resume unfinished work after the worker restarts
+ */
+export async function resumeSummaryQueue(): Promise<void> {
+  await loadState();
+  if (!state.stoppedReason && state.tasks.some(task => task.status === 'pending')) {
+    await saveState();
+    processQueue();
+  }
+}
+
+/**
+ * Resume a queue paused by the budget or missing API settings
+ * Called from the side panel and whenever the settings change; pauses again if nothing changed
+ */
+export async function retrySummaryQueue(): Promise<void> {
+  await loadState();
+  if (!state.stoppedReason || state.stoppedReason === 'cancelled') return;
+  if (!state.tasks.some(task => task.status === 'pending')) return;
+
+  state = { ...state, stoppedReason: undefined };
+  await saveState();
+  processQueue();
+}
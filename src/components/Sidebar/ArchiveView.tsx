@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Archive, Loader2, ExternalLink, Search, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArchivedItem } from '@/types/archive';
+import { getArchivedItems, getOldestArchiveTime, searchArchive } from '@/services/archiveService.ts';
+import { getTodayDateString } from '@/services/freshnessService.ts';
+import { safeTabsCreate } from '@/utils/chrome.ts';
+import { useI18n } from '@/i18n';
+import { logger } from '@/utils/logger.ts';
+
+// 停止输入后多久开始搜索
+const SEARCH_DEBOUNCE = 300;
+
+// 本地时区的 YYYY-MM-DD
+function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function shiftDate(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + days);
+  return toDateString(next);
+}
+
+// 当天的时间范围 [start, end)
+function dayRange(date: string): [number, number] {
+  return [new Date(`${date}T00:00:00`).getTime(), new Date(`${shiftDate(date, 1)}T00:00:00`).getTime()];
+}
+
+function ArchiveRow({ record }: { record: ArchivedItem }) {
+  const { t } = useI18n();
+  const { item, scoreHistory } = record;
+  const first = scoreHistory[0]?.score;
+  const last = scoreHistory[scoreHistory.length - 1]?.score;
+
+  return (
+    <button
+      onClick={() => safeTabsCreate({ url: item.url })}
+      className="group glass-card p-3 w-full text-left hover:border-wechat/40"
+    >
+      <div className="flex items-start gap-2">
+        <span className="flex-1 text-sm text-foreground group-hover:text-wechat">{item.title}</span>
+        <ExternalLink className="w-3 h-3 mt-1 flex-shrink-0 opacity-50 group-hover:opacity-100" />
+      </div>
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1 mt-1 text-[11px] text-muted-foreground">
+        <span>{item.sourceName || item.source}</span>
+        <span>· {t('archive.firstSeen', { time: new Date(record.firstSeen).toLocaleString() })}</span>
+        {record.lastSeen - record.firstSeen > 60 * 60 * 1000 && (
+          <span>· {t('archive.lastSeen', { time: new Date(record.lastSeen).toLocaleString() })}</span>
+        )}
+        {last !== undefined && (
+          <span className="flex items-center gap-0.5">
+            · <TrendingUp className="w-3 h-3" />
+            {first !== undefined && first !== last ? `${first} → ${last}` : last}
+          </span>
+        )}
+      </div>
+    </button>
+  );
+}
+
+/**
+ * 历史归档视图：按首次抓取日期浏览历史条目，或在全部归档中搜索
+ */
+function ArchiveView() {
+  const { t } = useI18n();
+  const today = getTodayDateString();
+  const [date, setDate] = useState(today);
+  const [oldestDate, setOldestDate] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [records, setRecords] = useState<ArchivedItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const searching = query.trim() !== '';
+
+  useEffect(() => {
+    getOldestArchiveTime()
+      .then(time => setOldestDate(time ? toDateString(new Date(time)) : null))
+      .catch((err) => logger.error('Failed to load archive range:', err));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const result = searching ? await searchArchive(query) : await getArchivedItems(...dayRange(date));
+        if (!cancelled) setRecords(result);
+      } catch (err) {
+        logger.error('Failed to load archive:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    const timer = setTimeout(load, searching ? SEARCH_DEBOUNCE : 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [date, query, searching]);
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder={t('archive.search')}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="pl-9 bg-secondary border-border text-foreground placeholder:text-muted-foreground focus:border-wechat/50"
+        />
+      </div>
+
+      {/* Date navigation */}
+      {!searching && (
+        <div className="flex items-center justify-between">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            disabled={!oldestDate || date <= oldestDate}
+            onClick={() => setDate(shiftDate(date, -1))}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <input
+            type="date"
+            value={date}
+            min={oldestDate ?? undefined}
+            max={today}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="bg-transparent text-sm font-medium text-foreground border-none outline-none"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            disabled={date >= today}
+            onClick={() => setDate(shiftDate(date, 1))}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {loading && records.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-wechat" />
+        </div>
+      ) : records.length > 0 ? (
+        <>
+          <p className="text-[10px] text-muted-foreground">
+            {searching ? t('archive.searchCount', { count: records.length }) : t('archive.dayCount', { count: records.length })}
+          </p>
+          <div className="space-y-2">
+            {records.map(record => <ArchiveRow key={record.id} record={record} />)}
+          </div>
+        </>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-12 text-muted-foreground text-center">
+          <Archive className="w-12 h-12 mb-4 opacity-50" />
+          <p className="text-sm">{searching ? t('archive.noResults') : t('archive.empty')}</p>
+          <p className="text-xs mt-2">{t('archive.emptyHint')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ArchiveView;
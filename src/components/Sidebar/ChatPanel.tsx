@@ -0,0 +1,232 @@
+import { useEffect, useRef, useState } from 'react';
+import { MessageCircle, Send, Loader2, X, Trash2, Layers, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FeedItem } from '@/types/index.ts';
+import { ChatMessage, ChatReference, ChatScope } from '@/types/chat';
+import { chatWithFeed, APINotConfiguredError } from '@/services/aiService.ts';
+import { safeTabsCreate, safeOpenOptionsPage } from '@/utils/chrome.ts';
+import { cn } from '@/lib/utils.ts';
+import { useI18n } from '@/i18n';
+import { logger } from '@/utils/logger.ts';
+
+interface ChatPanelProps {
+  scope: ChatScope;
+  items: FeedItem[]; // 当前信息流，scope 为 feed 时作为资料
+  onScopeChange: (scope: ChatScope) => void;
+  onClose: () => void;
+}
+
+// 回答正文：[n] 渲染为可点击的引用
+function AnswerText({ content, references }: { content: string; references?: ChatReference[] }) {
+  const byIndex = new Map((references || []).map(ref => [ref.index, ref]));
+  const parts = content.split(/(\[\d+\])/g);
+
+  return (
+    <p className="whitespace-pre-wrap">
+      {parts.map((part, i) => {
+        const ref = byIndex.get(parseInt(part.slice(1, -1)));
+        if (!/^\[\d+\]$/.test(part) || !ref) return part;
+        return (
+          <button
+            key={i}
+            onClick={() => safeTabsCreate({ url: ref.url })}
+            className="text-wechat hover:underline"
+            title={ref.title}
+          >
+            {part}
+          </button>
+        );
+      })}
+    </p>
+  );
+}
+
+/**
+ * 对话面板：针对单条内容或当前整个信息流提问，支持多轮追问，回答中引用的条目可点击打开
+ */
+function ChatPanel({ scope, items, onScopeChange, onClose }: ChatPanelProps) {
+  const { t } = useI18n();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [sending, setSending] = useState(false);
+  const [apiNotConfigured, setApiNotConfigured] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const scopeKey = scope.type === 'item' ? scope.item.id : 'feed';
+
+  // 切换对话范围时开始新的对话
+  useEffect(() => {
+    setMessages([]);
+    setApiNotConfigured(false);
+  }, [scopeKey]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages]);
+
+  const handleSend = async () => {
+    const question = input.trim();
+    if (!question || sending) return;
+
+    const userMessage: ChatMessage = { id: `user-${Date.now()}`, role: 'user', content: question };
+    const answerId = `assistant-${Date.now()}`;
+    const history = [...messages, userMessage];
+
+    setInput('');
+    setSending(true);
+    setApiNotConfigured(false);
+    setMessages([...history, { id: answerId, role: 'assistant', content: '' }]);
+
+    const updateAnswer = (updates: Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(message => (message.id === answerId ? { ...message, ...updates } : message)));
+    };
+
+    try {
+      const result = await chatWithFeed(history, scope, items, (text) => updateAnswer({ content: text }));
+      updateAnswer({ content: result.content, references: result.references });
+    } catch (error) {
+      logger.error('[ChatPanel] Chat error:', error);
+      setApiNotConfigured(error instanceof APINotConfiguredError);
+      updateAnswer({
+        content: error instanceof Error ? error.message : t('chat.error'),
+        error: true,
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* Scope header */}
+      <div className="px-4 py-2 border-b border-border bg-card/80 flex items-center gap-2">
+        <MessageCircle className="w-4 h-4 text-wechat flex-shrink-0" />
+        <span className="text-xs text-muted-foreground truncate flex-1">
+          {scope.type === 'item'
+            ? t('chat.scopeItem', { title: scope.item.title })
+            : t('chat.scopeFeed', { count: items.length })}
+        </span>
+        {scope.type === 'item' && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-muted-foreground hover:text-foreground"
+            onClick={() => onScopeChange({ type: 'feed' })}
+            title={t('chat.askFeed')}
+          >
+            <Layers className="w-4 h-4" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-muted-foreground hover:text-foreground"
+          onClick={() => setMessages([])}
+          disabled={sending || messages.length === 0}
+          title={t('chat.clear')}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-muted-foreground hover:text-foreground"
+          onClick={onClose}
+          title={t('chat.close')}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {/* Messages */}
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-4">
+          {messages.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-12 text-muted-foreground text-center">
+              <MessageCircle className="w-12 h-12 mb-4 opacity-50" />
+              <p className="text-sm">{scope.type === 'item' ? t('chat.emptyItem') : t('chat.emptyFeed')}</p>
+              <p className="text-xs mt-2">{scope.type === 'item' ? t('chat.exampleItem') : t('chat.exampleFeed')}</p>
+            </div>
+          )}
+
+          {messages.map(message => (
+            message.role === 'user' ? (
+              <div key={message.id} className="flex justify-end">
+                <div className="max-w-[85%] rounded-lg px-3 py-2 text-sm bg-wechat text-white whitespace-pre-wrap">
+                  {message.content}
+                </div>
+              </div>
+            ) : (
+              <div
+                key={message.id}
+                className={cn(
+                  'glass-card p-3 text-sm',
+                  message.error ? 'border-red-500/30 text-red-400' : 'text-foreground/90'
+                )}
+              >
+                {message.content ? (
+                  <AnswerText content={message.content} references={message.references} />
+                ) : (
+                  <Loader2 className="w-4 h-4 animate-spin text-wechat" />
+                )}
+                {message.error && apiNotConfigured && (
+                  <button onClick={safeOpenOptionsPage} className="mt-1 text-xs underline">
+                    {t('feed.goToSettings')}
+                  </button>
+                )}
+                {message.references && message.references.length > 0 && (
+                  <div className="mt-3 pt-2 border-t border-border/50 space-y-1">
+                    <p className="text-[10px] uppercase tracking-wide text-muted-foreground">{t('chat.sources')}</p>
+                    {message.references.map(ref => (
+                      <button
+                        key={ref.index}
+                        onClick={() => safeTabsCreate({ url: ref.url })}
+                        className="group w-full text-left text-xs text-muted-foreground hover:text-wechat flex items-start gap-1"
+                      >
+                        <span className="text-wechat">[{ref.index}]</span>
+                        <span className="flex-1">
+                          {ref.title} <span className="opacity-70">· {ref.source}</span>
+                        </span>
+                        <ExternalLink className="w-3 h-3 mt-0.5 flex-shrink-0 opacity-50 group-hover:opacity-100" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          ))}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+
+      {/* Input */}
+      <div className="px-4 py-3 border-t border-border bg-card/80 flex items-center gap-2">
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder={t('chat.placeholder')}
+          className="bg-secondary border-border text-foreground placeholder:text-muted-foreground focus:border-wechat/50"
+        />
+        <Button
+          size="icon"
+          onClick={handleSend}
+          disabled={sending || !input.trim()}
+          className="bg-wechat hover:bg-wechat/90 flex-shrink-0"
+          title={t('chat.send')}
+        >
+          {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default ChatPanel;
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Newspaper, Loader2, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Digest } from '@/types/digest';
+import { getDigests } from '@/services/storage.ts';
+import { safeRuntimeSendMessage, safeTabsCreate, safeOpenOptionsPage } from '@/utils/chrome.ts';
+import { useI18n } from '@/i18n';
+import { logger } from '@/utils/logger.ts';
+
+/**
+ * 每日简报视图：按日期浏览历史简报，或手动生成今天的简报
+ */
+function DigestView() {
+  const { t } = useI18n();
+  const [digests, setDigests] = useState<Record<string, Digest>>({});
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<{ message: string; apiNotConfigured: boolean } | null>(null);
+
+  const dates = Object.keys(digests).sort();
+  const currentDate = selectedDate ?? dates[dates.length - 1] ?? null;
+  const currentIndex = currentDate ? dates.indexOf(currentDate) : -1;
+  const digest = currentDate ? digests[currentDate] : null;
+
+  useEffect(() => {
+    getDigests().then(setDigests).catch((err) => {
+      logger.error('Failed to load digests:', err);
+    });
+  }, []);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const response = await safeRuntimeSendMessage({ type: 'GENERATE_DIGEST' });
+      if (response?.success && response.digest) {
+        const generated = response.digest as Digest;
+        setDigests(prev => ({ ...prev, [generated.date]: generated }));
+        setSelectedDate(generated.date);
+      } else {
+        setError({
+          message: response?.error || t('digest.error'),
+          apiNotConfigured: response?.errorType === 'API_NOT_CONFIGURED',
+        });
+      }
+    } catch (err) {
+      setError({ message: err instanceof Error ? err.message : t('digest.error'), apiNotConfigured: false });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Date navigation */}
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          disabled={currentIndex <= 0}
+          onClick={() => setSelectedDate(dates[currentIndex - 1])}
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span className="text-sm font-medium text-foreground">{currentDate ?? t('digest.title')}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          disabled={currentIndex < 0 || currentIndex >= dates.length - 1}
+          onClick={() => setSelectedDate(dates[currentIndex + 1])}
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {error && (
+        <div className="text-xs p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400">
+          <p>{error.message}</p>
+          {error.apiNotConfigured && (
+            <button onClick={safeOpenOptionsPage} className="mt-1 underline">
+              {t('feed.goToSettings')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {digest ? (
+        <>
+          {digest.groups.map(group => (
+            <div key={group.theme} className="glass-card p-4">
+              <h3 className="text-sm font-semibold text-wechat mb-1">{group.theme}</h3>
+              <p className="text-sm text-foreground/90 mb-3">{group.takeaway}</p>
+              <ul className="space-y-1">
+                {group.links.map(link => (
+                  <li key={link.id}>
+                    <button
+                      onClick={() => safeTabsCreate({ url: link.url })}
+                      className="group text-left text-xs text-muted-foreground hover:text-wechat flex items-start gap-1"
+                    >
+                      <ExternalLink className="w-3 h-3 mt-0.5 flex-shrink-0 opacity-50 group-hover:opacity-100" />
+                      <span>
+                        <span className="opacity-70">[{link.source}]</span> {link.title}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          <p className="text-[10px] text-muted-foreground text-center">
+            {t('digest.generatedAt', {
+              time: new Date(digest.generatedAt).toLocaleString(),
+              count: digest.itemCount,
+            })}
+          </p>
+        </>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+          <Newspaper className="w-12 h-12 mb-4 opacity-50" />
+          <p className="text-sm">{t('digest.empty')}</p>
+          <p className="text-xs mt-2">{t('digest.emptyHint')}</p>
+        </div>
+      )}
+
+      <div className="flex justify-center">
+        <Button
+          size="sm"
+          onClick={handleGenerate}
+          disabled={generating}
+          className="bg-wechat hover:bg-wechat/90"
+        >
+          {generating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Newspaper className="w-4 h-4 mr-2" />}
+          {generating ? t('digest.generating') : t('digest.generate')}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default DigestView;
@@ -3,23 +3,36 @@
  *   All rights reserved.
  */
 import React, { useState, useEffect } from 'react';
-import { ExternalLink, Clock, Star, MessageSquare, Sparkles, Loader2, AlertCircle, Settings, X, RefreshCw, Pin } from 'lucide-react';
+import { ExternalLink, Clock, Star, MessageSquare, Sparkles, Loader2, AlertCircle, Settings, X, RefreshCw, Pin, TrendingUp, EyeOff, Heart, MessageCircle, Flame } from 'lucide-react';
 import { FeedItem, SourceType } from '@/types/index.ts';
+import { SummaryTaskStatus } from '@/types/summaryQueue';
 import { cn } from '@/lib/utils.ts';
 import { safeTabsCreate } from '@/utils/chrome.ts';
 import { getBrandIcon } from '@/components/icons/BrandIcons.tsx';
 import { useI18n } from '@/i18n';
 import { generateSummary, APINotConfiguredError } from '@/services/aiService.ts';
 import { useFavoriteStore } from '@/stores/favoriteStore';
+import { useReadStateStore } from '@/stores/readStateStore';
+import { useInterestStore } from '@/stores/interestStore';
+import { scoreItem } from '@/services/interestModel';
 import { FavoriteButton } from '@/components/FavoriteButton';
 import { TagList } from '@/components/TagList';
+import { Sparkline } from '@/components/Sparkline';
+import { TrendInfo } from '@/services/trendService';
 import { logger } from '@/utils/logger.ts';
 
 interface FeedListProps {
   feeds: FeedItem[];
+  newCount?: number; // 排在最前的“上次访问后新内容”条数，其后显示分隔线
+  summaryStatus?: Map<string, SummaryTaskStatus>; // 批量摘要队列中的任务状态
   onFeedUpdate?: (feed: FeedItem) => void;
+  onAsk?: (feed: FeedItem) => void; // 打开针对该条目的对话
+  trends?: Map<string, TrendInfo>; // 多次刷新间的热度走势
 }
 
+// “为你推荐”标记阈值（兴趣分值 -1~1）
+const FOR_YOU_THRESHOLD = 0.5;
+
 const SOURCE_COLORS: Record<SourceType, string> = {
   GitHub: 'bg-gray-800',
   HackerNews: 'bg-orange-500',
@@ -43,7 +56,7 @@ interface ErrorDialogState {
   errorMessage: string;
 }
 
-function FeedList({ feeds, onFeedUpdate }: FeedListProps) {
+function FeedList({ feeds, newCount = 0, summaryStatus, onFeedUpdate, onAsk, trends }: FeedListProps) {
   const [loadingIds, setLoadingIds] = useState<Set<string>>(new Set());
   const [regeneratingIds, setRegeneratingIds] = useState<Set<string>>(new Set());
   const [errorIds, setErrorIds] = useState<Map<string, ErrorInfo>>(new Map()); // 存储错误信息
@@ -58,6 +71,14 @@ function FeedList({ feeds, onFeedUpdate }: FeedListProps) {
   const favorites = useFavoriteStore((state) => state.favorites);
   const toggleFavorite = useFavoriteStore((state) => state.toggleFavorite);
   const regenerateTags = useFavoriteStore((state) => state.regenerateTags);
+  const updateSnapshot = useFavoriteStore((state) => state.updateSnapshot);
+  // 阅读状态
+  const readEntries = useReadStateStore((state) => state.entries);
+  const markOpened = useReadStateStore((state) => state.markOpened);
+  const dismiss = useReadStateStore((state) => state.dismiss);
+  // 兴趣画像（从交互中学习）
+  const recordInterest = useInterestStore((state) => state.record);
+  const interestProfile = useInterestStore((state) => state.profile);
   // 标签生成中的 ID 集合（包括首次收藏时生成）
   const [tagsLoadingIds, setTagsLoadingIds] = useState<Set<string>>(new Set());
 
@@ -106,13 +127,15 @@ function FeedList({ feeds, onFeedUpdate }: FeedListProps) {
     return `${month}月${day}日`;
   };
 
-  const handleFeedClick = (url: string, e: React.MouseEvent) => {
+  const handleFeedClick = (feed: FeedItem, e: React.MouseEvent) => {
     // 如果点击的是按钮或 AI 摘要/错误卡片区域，不触发跳转
     const target = e.target as HTMLElement;
     if (target.closest('button') || target.closest('[data-no-navigate]')) {
       return;
     }
-    safeTabsCreate({ url });
+    markOpened(feed.id);
+    recordInterest(feed, 'open');
+    safeTabsCreate({ url: feed.url });
   };
 
   // 打开设置页面
@@ -176,6 +199,9 @@ function FeedList({ feeds, onFeedUpdate }: FeedListProps) {
           aiSummaryLoading: false
         });
       }
+
+      // 已收藏的条目同步更新快照中的摘要
+      updateSnapshot({ ...feed, aiSummary: finalSummary });
     } catch (error) {
       logger.error('[FeedList] Generate AI summary error:', error);
 
@@ -229,7 +255,8 @@ function FeedList({ feeds, onFeedUpdate }: FeedListProps) {
     }
     
     try {
-      await toggleFavorite(feed.id, content, !isCurrentlyFavorite);
+      await toggleFavorite(feed, content, !isCurrentlyFavorite);
+      recordInterest(feed, isCurrentlyFavorite ? 'unfavorite' : 'favorite');
     } finally {
       // 移除 loading 状态
       setTagsLoadingIds(prev => {
@@ -335,8 +362,12 @@ function FeedList({ feeds, onFeedUpdate }: FeedListProps) {
       )}
       
       <div className="space-y-3">
-        {feeds.map((feed) => {
-          const isLoading = loadingIds.has(feed.id);
+        {feeds.map((feed, index) => {
+          const isRead = !!readEntries.get(feed.id)?.status;
+          const showNewDivider = newCount > 0 && index === newCount && index < feeds.length;
+          const queuedStatus = summaryStatus?.get(feed.id);
+          const isQueued = queuedStatus === 'pending';
+          const isLoading = loadingIds.has(feed.id) || isQueued || queuedStatus === 'running';
           const isRegenerating = regeneratingIds.has(feed.id);
           const isTagsLoading = tagsLoadingIds.has(feed.id);
           const favoriteInfo = getFavoriteInfo(feed.id);
@@ -351,16 +382,26 @@ function FeedList({ feeds, onFeedUpdate }: FeedListProps) {
             return true;
           })();
           const errorInfo = errorIds.get(feed.id);
+          const trend = trends?.get(feed.id);
           
           return (
+            <React.Fragment key={feed.id}>
+            {showNewDivider && (
+              <div className="flex items-center gap-2 text-xs text-wechat py-1">
+                <div className="flex-1 h-px bg-wechat/30" />
+                <span>{t('feed.newSinceLastVisit', { count: newCount })}</span>
+                <div className="flex-1 h-px bg-wechat/30" />
+              </div>
+            )}
             <div
-              key={feed.id}
-              onClick={(e) => handleFeedClick(feed.url, e)}
+              onClick={(e) => handleFeedClick(feed, e)}
               className={cn(
               'feed-item group relative cursor-pointer',
               'hover:shadow-lg hover:shadow-wechat/5',
               'transition-all duration-300',
-              feed.isPinned && 'ring-1 ring-wechat/30 bg-wechat/5'
+              feed.isPinned && 'ring-1 ring-wechat/30 bg-wechat/5',
+              feed.highlighted && 'ring-1 ring-amber-400/60 bg-amber-400/5',
+              isRead && 'opacity-70'
             )}
           >
             {/* Pinned indicator */}
@@ -383,22 +424,72 @@ function FeedList({ feeds, onFeedUpdate }: FeedListProps) {
 
             {/* Source Badge */}
             <div className="flex items-center gap-2 mb-2">
-              <div className={cn('flex items-center justify-center w-5 h-5 rounded text-white', SOURCE_COLORS[feed.source] || 'bg-gray-500')}>
-                {renderBrandIcon(feed.source)}
-              </div>
-              <span className="text-xs text-muted-foreground font-medium">{feed.sourceName || feed.source}</span>
+              {!isRead && (
+                <span className="w-1.5 h-1.5 rounded-full bg-wechat flex-shrink-0" title={t('feed.unread')} />
+              )}
+              {feed.mergedSources ? (
+                // 跨来源合并条目：每个来源一个徽标，点击打开该来源的讨论页
+                feed.mergedSources.map(merged => (
+                  <button
+                    key={merged.itemId}
+                    onClick={() => safeTabsCreate({ url: merged.commentsUrl || merged.url })}
+                    className="flex items-center gap-1 hover:opacity-80"
+                    title={t('feed.openSource', { source: merged.sourceName || merged.source })}
+                  >
+                    <div className={cn('flex items-center justify-center w-5 h-5 rounded text-white', SOURCE_COLORS[merged.source] || 'bg-gray-500')}>
+                      {renderBrandIcon(merged.source)}
+                    </div>
+                    <span className="text-xs text-muted-foreground font-medium">{merged.sourceName || merged.source}</span>
+                  </button>
+                ))
+              ) : (
+                <>
+                  <div className={cn('flex items-center justify-center w-5 h-5 rounded text-white', SOURCE_COLORS[feed.source] || 'bg-gray-500')}>
+                    {renderBrandIcon(feed.source)}
+                  </div>
+                  <span className="text-xs text-muted-foreground font-medium">{feed.sourceName || feed.source}</span>
+                </>
+              )}
               {feed.score !== undefined && feed.score > 0 && (
                 <span className="text-xs text-wechat flex items-center gap-1">
                   <Star className="w-3 h-3" />
                   {formatNumber(feed.score)}
                 </span>
               )}
+              {trend && (
+                <Sparkline
+                  values={trend.points}
+                  className={trend.rising ? 'text-orange-500' : 'text-muted-foreground/70'}
+                  title={t(`feed.trend.${trend.metric}`)}
+                />
+              )}
+              {trend?.rising && (
+                <span
+                  className="text-xs text-orange-500 flex items-center gap-1"
+                  title={t('feed.risingHint', { count: formatNumber(trend.gain), hours: trend.hours })}
+                >
+                  <Flame className="w-3 h-3" />
+                  {t('feed.rising')}
+                </span>
+              )}
+              {feed.starsGained !== undefined && feed.starsGained > 0 && (
+                <span className="text-xs text-orange-500 flex items-center gap-1">
+                  <TrendingUp className="w-3 h-3" />
+                  {t(`feed.starsGained.${feed.starsGainedSince || 'daily'}`, { count: formatNumber(feed.starsGained) })}
+                </span>
+              )}
               {feed.commentCount !== undefined && feed.commentCount > 0 && (
                 <span className="text-xs text-muted-foreground flex items-center gap-1">
                   <MessageSquare className="w-3 h-3" />
                   {formatNumber(feed.commentCount)}
                 </span>
               )}
+              {scoreItem(interestProfile, feed) >= FOR_YOU_THRESHOLD && (
+                <span className="text-xs text-pink-500 flex items-center gap-1" title={t('feed.forYouHint')}>
+                  <Heart className="w-3 h-3" />
+                  {t('feed.forYou')}
+                </span>
+              )}
             </div>
 
             {/* Title */}
@@ -535,7 +626,7 @@ function FeedList({ feeds, onFeedUpdate }: FeedListProps) {
                 {isLoading ? (
                   <>
                     <Loader2 className="w-3 h-3 animate-spin" />
-                    <span>{t('feed.generating')}</span>
+                    <span>{isQueued ? t('feed.queued') : t('feed.generating')}</span>
                   </>
                 ) : (
                   <>
@@ -571,12 +662,32 @@ function FeedList({ feeds, onFeedUpdate }: FeedListProps) {
                 )}
                 {feed.author && <span className="truncate">{hasValidTime ? '· ' : ''}{feed.author}</span>}
               </div>
+              {onAsk && (
+                <button
+                  onClick={() => onAsk(feed)}
+                  className="text-muted-foreground hover:text-wechat opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
+                  title={t('feed.ask')}
+                >
+                  <MessageCircle className="w-3 h-3" />
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  dismiss(feed.id);
+                  recordInterest(feed, 'dismiss');
+                }}
+                className="text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
+                title={t('feed.dismiss')}
+              >
+                <EyeOff className="w-3 h-3" />
+              </button>
               <ExternalLink className="w-3 h-3 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" />
             </div>
 
             {/* Hover Effect */}
             <div className="absolute inset-0 border-2 border-wechat/0 group-hover:border-wechat/30 rounded-lg pointer-events-none transition-all duration-300" />
           </div>
+          </React.Fragment>
         );
       })}
       </div>
@@ -1,25 +1,57 @@
 import { useEffect, useState, useMemo, useCallback } from 'react';
-import { RefreshCw, Settings, Search, Filter, Sparkles, Sun, Moon, Star } from 'lucide-react';
+import { RefreshCw, Settings, Search, Filter, Sparkles, Sun, Moon, Star, Eye, EyeOff, CheckCheck, ArrowUpDown, Newspaper, Wand2, X, MessageCircle, Brain, Loader2, Archive } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import FeedList from './FeedList.tsx';
-import { FeedItem, SourceType, SourceConfig } from '@/types/index.ts';
-import { getFeeds, saveFeeds, getConfig } from '@/services/storage.ts';
+import DigestView from './DigestView.tsx';
+import ArchiveView from './ArchiveView.tsx';
+import ChatPanel from './ChatPanel.tsx';
+import { FeedItem, SourceType, SourceConfig, FeedRule, RankingMode } from '@/types/index.ts';
+import { ChatScope } from '@/types/chat';
+import { getFeeds, saveFeeds, getConfig, getRankingMode, saveRankingMode } from '@/services/storage.ts';
 import { safeOpenOptionsPage } from '@/utils/chrome.ts';
 import { useTheme } from '@/hooks/useTheme.ts';
 import { useI18n } from '@/i18n';
 import { useFavoriteStore } from '@/stores/favoriteStore';
+import { favoriteToFeedItem } from '@/types/favorite';
 import { useSmartRefresh } from '@/hooks/useSmartRefresh';
 import { useErrorHandler } from '@/hooks/useErrorHandler';
+import { useSummaryQueue } from '@/hooks/useSummaryQueue';
+import { getItemSources } from '@/services/dedupService';
+import { useReadStateStore } from '@/stores/readStateStore';
+import { applyRules } from '@/services/rulesService';
+import { rankItems, RANKING_MODES } from '@/services/rankingService';
+import { useInterestStore } from '@/stores/interestStore';
+import { scoreItem } from '@/services/interestModel';
+import { semanticSearch, pruneEmbeddings } from '@/services/embeddingService';
+import { getScoreHistories } from '@/services/archiveService';
+import { analyzeTrend, TrendInfo } from '@/services/trendService';
+import { APINotConfiguredError, EmbeddingsNotSupportedError } from '@/services/aiService';
+import { logger } from '@/utils/logger.ts';
+
+// 语义搜索在停止输入后多久发起请求
+const SEMANTIC_SEARCH_DEBOUNCE = 500;
 
 function Sidebar() {
   const [feeds, setFeeds] = useState<FeedItem[]>([]);
   const [filteredFeeds, setFilteredFeeds] = useState<FeedItem[]>([]);
+  const [newCount, setNewCount] = useState(0);
+  const [rules, setRules] = useState<FeedRule[]>([]);
   const [loading, setLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [activeFilter, setActiveFilter] = useState<string>('all');
+  const [rankingMode, setRankingMode] = useState<RankingMode>('newest');
+  // 信息流之外的视图：每日简报、历史归档
+  const [activeView, setActiveView] = useState<'feed' | 'digest' | 'archive'>('feed');
+  const [chatScope, setChatScope] = useState<ChatScope | null>(null);
+  // 语义搜索：开启后按向量相似度与关键词混合打分，结果为空（未完成）时退回关键词过滤
+  const [semanticMode, setSemanticMode] = useState(false);
+  const [semanticScores, setSemanticScores] = useState<Map<string, number> | null>(null);
+  const [semanticSearching, setSemanticSearching] = useState(false);
+  // 热度走势（来自历史归档中每次刷新的记录）
+  const [trends, setTrends] = useState<Map<string, TrendInfo>>(new Map());
   const { toggleTheme, isDark } = useTheme();
   const { t } = useI18n();
   const { handleError } = useErrorHandler();
@@ -30,6 +62,34 @@ function Sidebar() {
   const tagFilter = useFavoriteStore((state) => state.tagFilter);
   const setFavoriteFilter = useFavoriteStore((state) => state.setFavoriteFilter);
   const setTagFilter = useFavoriteStore((state) => state.setTagFilter);
+  const updateSnapshot = useFavoriteStore((state) => state.updateSnapshot);
+  const syncSnapshots = useFavoriteStore((state) => state.syncSnapshots);
+  const loadFavorites = useFavoriteStore((state) => state.loadFromStorage);
+
+  // 阅读状态
+  const readEntries = useReadStateStore((state) => state.entries);
+  const hideRead = useReadStateStore((state) => state.hideRead);
+  const setHideRead = useReadStateStore((state) => state.setHideRead);
+  const markAllRead = useReadStateStore((state) => state.markAllRead);
+  const trackItems = useReadStateStore((state) => state.trackItems);
+  const isRead = useReadStateStore((state) => state.isRead);
+  const isNew = useReadStateStore((state) => state.isNew);
+  const loadReadState = useReadStateStore((state) => state.loadFromStorage);
+
+  // 兴趣画像
+  const interestProfile = useInterestStore((state) => state.profile);
+  const loadInterestProfile = useInterestStore((state) => state.loadFromStorage);
+
+  // 批量摘要队列（由后台持有）
+  const {
+    queue: summaryQueue,
+    statusById: summaryStatus,
+    progress: summaryProgress,
+    enqueue: enqueueSummaries,
+    cancel: cancelSummaries,
+    clear: clearSummaries,
+    retry: retrySummaries,
+  } = useSummaryQueue();
 
   // 智能刷新 Hook
   const { 
@@ -49,12 +109,14 @@ function Sidebar() {
     const config = await getConfig();
     
     // Build maps for pinned sources
+    const pinnedBySourceId = new Set<string>();
     const pinnedByName = new Map<string, boolean>();
     const pinnedByUrl = new Map<string, boolean>();
     const pinnedByType = new Map<string, boolean>();
     
     config.sources.forEach((source: SourceConfig) => {
       if (source.isPinned) {
+        pinnedBySourceId.add(source.id);
         pinnedByName.set(source.name, true);
         if (source.url) {
           pinnedByUrl.set(source.url, true);
@@ -69,7 +131,10 @@ function Sidebar() {
     const syncedFeeds = storedFeeds.map(feed => {
       let isPinned = false;
       
-      if (feed.source === 'RSS') {
+      if (feed.sourceId) {
+        isPinned = pinnedBySourceId.has(feed.sourceId);
+      } else if (feed.source === 'RSS') {
+        // 兼容旧数据：没有 sourceId 时按名称或旧版 ID 中的 URL 匹配
         isPinned = pinnedByName.has(feed.sourceName || '');
         if (!isPinned && feed.id.startsWith('rss-')) {
           const urlMatch = feed.id.match(/^rss-(.+)-\d+$/);
@@ -84,23 +149,46 @@ function Sidebar() {
       return { ...feed, isPinned };
     });
     
-    // Sort: pinned first, then by date
-    const sortedFeeds = syncedFeeds.sort((a, b) => {
-      if (a.isPinned !== b.isPinned) {
-        return a.isPinned ? -1 : 1;
-      }
-      const dateA = a.publishedAt instanceof Date ? a.publishedAt : new Date(a.publishedAt || 0);
-      const dateB = b.publishedAt instanceof Date ? b.publishedAt : new Date(b.publishedAt || 0);
-      return (dateB?.getTime() || 0) - (dateA?.getTime() || 0);
-    });
+    // Sort: pinned first, then by date（显示顺序由 filterFeeds 按排序模式决定）
+    const sortedFeeds = rankItems(syncedFeeds, 'newest');
     
+    setRules(config.rules ?? []);
     setFeeds(sortedFeeds);
     setFilteredFeeds(sortedFeeds);
-  }, []);
+
+    // 用最新数据补全/刷新收藏快照
+    await loadFavorites();
+    syncSnapshots(sortedFeeds);
+
+    // 记录条目首次出现时间（用于“上次访问后的新内容”）
+    await loadReadState();
+    trackItems(sortedFeeds.map(feed => feed.id));
+  }, [loadFavorites, syncSnapshots, loadReadState, trackItems]);
+
+  // 收藏视图：优先使用 feed 中的最新数据，已离开 feed 的条目使用收藏快照
+  const savedFeeds = useMemo(() => {
+    const liveFeeds = new Map(feeds.map(feed => [feed.id, feed]));
+    return Array.from(favorites.values())
+      .filter(fav => fav.isFavorite)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(fav => liveFeeds.get(fav.id) || favoriteToFeedItem(fav))
+      .filter((feed): feed is FeedItem => !!feed);
+  }, [feeds, favorites]);
+
+  // 存储中保留了被屏蔽的条目，这里按规则过滤并重新标记，修改规则后无需重新抓取
+  const ruledFeeds = useMemo(() => applyRules(feeds, rules), [feeds, rules]);
+
+  const isSavedView = favoriteFilter === 'favorite';
+  const baseFeeds = isSavedView ? savedFeeds : ruledFeeds;
+
+  // 个性化排序：使用本地兴趣画像的“为你推荐”分值
+  const personalScore = useCallback((item: FeedItem) => scoreItem(interestProfile, item), [interestProfile]);
 
   // 初始化：执行智能刷新策略
   useEffect(() => {
     const init = async () => {
+      setRankingMode(await getRankingMode());
+      await loadInterestProfile();
       // 先加载缓存数据
       await loadFeeds();
       // 执行智能刷新策略
@@ -111,7 +199,76 @@ function Sidebar() {
 
   useEffect(() => {
     filterFeeds();
-  }, [feeds, searchQuery, activeFilter, favorites, favoriteFilter, tagFilter]);
+  }, [baseFeeds, searchQuery, activeFilter, favorites, favoriteFilter, tagFilter, readEntries, hideRead, rankingMode, personalScore, semanticScores]);
+
+  // 语义搜索（防抖），失败时提示并退回关键词搜索
+  useEffect(() => {
+    if (!semanticMode || !searchQuery.trim()) {
+      setSemanticScores(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSemanticSearching(true);
+      try {
+        const scores = await semanticSearch(searchQuery, baseFeeds);
+        if (!cancelled) setSemanticScores(scores);
+      } catch (error) {
+        if (cancelled) return;
+        const message = error instanceof APINotConfiguredError
+          ? t('feed.configureApiFirst')
+          : error instanceof EmbeddingsNotSupportedError
+            ? t('sidebar.semanticUnsupported')
+            : undefined;
+        handleError(error, { message });
+        setSemanticMode(false);
+      } finally {
+        if (!cancelled) setSemanticSearching(false);
+      }
+    }, SEMANTIC_SEARCH_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [semanticMode, searchQuery, baseFeeds, handleError, t]);
+
+  // 加载当前条目的热度走势
+  useEffect(() => {
+    let cancelled = false;
+    getScoreHistories(baseFeeds.map(feed => feed.id))
+      .then((histories) => {
+        if (cancelled) return;
+        const now = Date.now();
+        const next = new Map<string, TrendInfo>();
+        histories.forEach((history, id) => {
+          const trend = analyzeTrend(history, now);
+          if (trend) next.set(id, trend);
+        });
+        setTrends(next);
+      })
+      .catch((error) => logger.error('Failed to load trends:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [baseFeeds]);
+
+  // 后台完成的摘要合并到当前列表（后台已写入存储）
+  useEffect(() => {
+    const summaries = new Map(
+      summaryQueue.tasks
+        .filter(task => task.status === 'done' && task.summary)
+        .map(task => [task.id, task.summary!])
+    );
+    if (summaries.size === 0) return;
+    setFeeds(prev => {
+      const needsUpdate = prev.some(feed => summaries.has(feed.id) && feed.aiSummary !== summaries.get(feed.id));
+      return needsUpdate
+        ? prev.map(feed => (summaries.has(feed.id) ? { ...feed, aiSummary: summaries.get(feed.id) } : feed))
+        : prev;
+    });
+  }, [summaryQueue]);
 
   const handleRefresh = async () => {
     setLoading(true);
@@ -126,6 +283,11 @@ function Sidebar() {
   };
 
   const handleFeedUpdate = async (updatedFeed: FeedItem) => {
+    // 已不在 feed 中的收藏条目只更新内存中的快照，最终结果由 FeedList 持久化
+    if (!feeds.some(f => f.id === updatedFeed.id)) {
+      updateSnapshot(updatedFeed, false);
+      return;
+    }
     const newFeeds = feeds.map(f => 
       f.id === updatedFeed.id ? updatedFeed : f
     );
@@ -134,10 +296,20 @@ function Sidebar() {
   };
 
   const filterFeeds = () => {
-    let filtered = feeds;
+    let filtered = baseFeeds;
+
+    // 已忽略的条目不显示；开启“隐藏已读”时过滤已读条目（收藏视图不受影响）
+    if (!isSavedView) {
+      filtered = filtered.filter(feed => {
+        const status = readEntries.get(feed.id)?.status;
+        return status !== 'dismissed' && !(hideRead && status);
+      });
+    }
 
     // Apply search filter
-    if (searchQuery) {
+    if (searchQuery && semanticScores) {
+      filtered = filtered.filter(feed => semanticScores.has(feed.id));
+    } else if (searchQuery) {
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter(
         feed =>
@@ -150,16 +322,12 @@ function Sidebar() {
 
     // Apply source filter
     if (activeFilter !== 'all') {
-      filtered = filtered.filter(feed => feed.source === activeFilter);
+      filtered = filtered.filter(feed => getItemSources(feed).includes(activeFilter as SourceType));
     }
 
-    // Apply favorite filter
-    if (favoriteFilter !== 'all') {
-      const isFavoriteFilter = favoriteFilter === 'favorite';
-      filtered = filtered.filter(feed => {
-        const fav = favorites.get(feed.id);
-        return isFavoriteFilter ? !!fav?.isFavorite : !fav?.isFavorite;
-      });
+    // Apply favorite filter (收藏视图的数据本身就来自收藏)
+    if (favoriteFilter === 'non-favorite') {
+      filtered = filtered.filter(feed => !favorites.get(feed.id)?.isFavorite);
     }
 
     // Apply tag filter
@@ -170,38 +338,91 @@ function Sidebar() {
       });
     }
 
-    // Maintain pinned-first sorting after filtering
-    filtered = [...filtered].sort((a, b) => {
-      if (a.isPinned !== b.isPinned) {
-        return a.isPinned ? -1 : 1;
-      }
-      const dateA = a.publishedAt instanceof Date ? a.publishedAt : new Date(a.publishedAt || 0);
-      const dateB = b.publishedAt instanceof Date ? b.publishedAt : new Date(b.publishedAt || 0);
-      return (dateB?.getTime() || 0) - (dateA?.getTime() || 0);
-    });
+    // 语义搜索结果按相关度排序
+    if (searchQuery && semanticScores) {
+      setNewCount(0);
+      setFilteredFeeds([...filtered].sort((a, b) => (semanticScores.get(b.id) ?? 0) - (semanticScores.get(a.id) ?? 0)));
+      return;
+    }
+
+    // 收藏视图保持收藏时间顺序
+    if (isSavedView) {
+      setNewCount(0);
+      setFilteredFeeds(filtered);
+      return;
+    }
+
+    // Maintain pinned-first, then boosted, then the selected ranking mode
+    filtered = rankItems(filtered, rankingMode, { personalScore });
+
+    // 上次访问后的新内容排在最前，FeedList 在其后显示分隔线
+    const newFeeds = filtered.filter(feed => isNew(feed.id));
+    if (newFeeds.length > 0) {
+      filtered = [...newFeeds, ...filtered.filter(feed => !isNew(feed.id))];
+    }
+    setNewCount(newFeeds.length);
 
     setFilteredFeeds(filtered);
   };
 
+  const handleToggleSemantic = () => {
+    const enabled = !semanticMode;
+    setSemanticMode(enabled);
+    if (enabled) {
+      // 清理已离开信息流且未收藏的旧向量
+      pruneEmbeddings([...feeds.map(feed => feed.id), ...favorites.keys()]).catch((error) => {
+        logger.warn('[Sidebar] Failed to prune embeddings:', error);
+      });
+    }
+  };
+
+  const handleRankingModeChange = (mode: RankingMode) => {
+    setRankingMode(mode);
+    saveRankingMode(mode);
+  };
+
+  const handleSummarizeVisible = () => {
+    enqueueSummaries(filteredFeeds.filter(feed => !feed.aiSummary));
+  };
+
+  const handleMarkAllRead = () => {
+    markAllRead(filteredFeeds.map(feed => feed.id));
+  };
+
   const openSettings = () => {
     safeOpenOptionsPage();
   };
 
   // 动态获取所有数据源的计数
   const sourceCounts = useMemo(() => {
-    const counts: Record<string, number> = { all: feeds.length };
-    feeds.forEach(feed => {
-      counts[feed.source] = (counts[feed.source] || 0) + 1;
+    const counts: Record<string, number> = { all: baseFeeds.length };
+    baseFeeds.forEach(feed => {
+      getItemSources(feed).forEach(source => {
+        counts[source] = (counts[source] || 0) + 1;
+      });
     });
     return counts;
-  }, [feeds]);
+  }, [baseFeeds]);
+
+  // 各数据源未读数（不含已忽略条目）
+  const unreadCounts = useMemo(() => {
+    const counts: Record<string, number> = { all: 0 };
+    baseFeeds.forEach(feed => {
+      if (readEntries.get(feed.id)?.status) return;
+      counts.all += 1;
+      getItemSources(feed).forEach(source => {
+        counts[source] = (counts[source] || 0) + 1;
+      });
+    });
+    return counts;
+  }, [baseFeeds, readEntries]);
 
   // 获取有数据的数据源列表
   const availableSources = useMemo(() => {
     const sources = new Set<SourceType>();
-    feeds.forEach(feed => sources.add(feed.source));
+    baseFeeds.forEach(feed => getItemSources(feed).forEach(source => sources.add(source)));
     return Array.from(sources);
-  }, [feeds]);
+  }, [baseFeeds]);
 
   return (
     <div className="h-screen bg-background flex flex-col transition-colors duration-300">
@@ -246,38 +467,144 @@ function Sidebar() {
         <div className="relative">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
           <Input
-            placeholder={t('sidebar.search')}
+            placeholder={semanticMode ? t('sidebar.semanticSearch') : t('sidebar.search')}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-9 bg-secondary border-border text-foreground placeholder:text-muted-foreground focus:border-wechat/50"
+            className="pl-9 pr-10 bg-secondary border-border text-foreground placeholder:text-muted-foreground focus:border-wechat/50"
           />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleToggleSemantic}
+            className={semanticMode
+              ? 'absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 text-wechat bg-wechat/10'
+              : 'absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 text-muted-foreground hover:text-foreground'}
+            title={semanticMode ? t('sidebar.semanticOff') : t('sidebar.semanticOn')}
+          >
+            {semanticSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Brain className="w-4 h-4" />}
+          </Button>
         </div>
 
         {/* Favorite Filter */}
         <div className="flex items-center gap-2 mt-2">
           <Button
-            variant={favoriteFilter === 'all' ? 'default' : 'ghost'}
+            variant={activeView === 'feed' && favoriteFilter === 'all' ? 'default' : 'ghost'}
             size="sm"
-            onClick={() => setFavoriteFilter('all')}
-            className={favoriteFilter === 'all' 
+            onClick={() => {
+              setActiveView('feed');
+              setChatScope(null);
+              setFavoriteFilter('all');
+            }}
+            className={activeView === 'feed' && favoriteFilter === 'all' 
               ? 'bg-wechat text-white hover:bg-wechat/90' 
               : 'hover:bg-secondary text-muted-foreground hover:text-foreground'
             }
           >
-            全部 ({feeds.length})
+            {t('sidebar.all')} ({ruledFeeds.length})
           </Button>
           <Button
-            variant={favoriteFilter === 'favorite' ? 'default' : 'ghost'}
+            variant={activeView === 'feed' && favoriteFilter === 'favorite' ? 'default' : 'ghost'}
             size="sm"
-            onClick={() => setFavoriteFilter('favorite')}
-            className={favoriteFilter === 'favorite'
+            onClick={() => {
+              setActiveView('feed');
+              setChatScope(null);
+              setFavoriteFilter('favorite');
+            }}
+            className={activeView === 'feed' && favoriteFilter === 'favorite'
               ? 'bg-wechat text-white hover:bg-wechat/90'
               : 'hover:bg-secondary text-muted-foreground hover:text-foreground'
             }
           >
             <Star className="w-3 h-3 mr-1 fill-current" />
-            收藏 ({Array.from(favorites.values()).length})
+            {t('sidebar.saved')} ({savedFeeds.length})
           </Button>
+          <Button
+            variant={activeView === 'digest' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => {
+              setActiveView('digest');
+              setChatScope(null);
+            }}
+            className={activeView === 'digest'
+              ? 'bg-wechat text-white hover:bg-wechat/90'
+              : 'hover:bg-secondary text-muted-foreground hover:text-foreground'
+            }
+          >
+            <Newspaper className="w-3 h-3 mr-1" />
+            {t('sidebar.digest')}
+          </Button>
+          <Button
+            variant={activeView === 'archive' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => {
+              setActiveView('archive');
+              setChatScope(null);
+            }}
+            className={activeView === 'archive'
+              ? 'bg-wechat text-white hover:bg-wechat/90'
+              : 'hover:bg-secondary text-muted-foreground hover:text-foreground'
+            }
+            title={t('sidebar.archiveHint')}
+          >
+            <Archive className="w-3 h-3 mr-1" />
+            {t('sidebar.archive')}
+          </Button>
+          <div className="ml-auto flex items-center gap-1">
+            <div
+              className={isSavedView ? 'flex items-center gap-1 text-muted-foreground opacity-50' : 'flex items-center gap-1 text-muted-foreground'}
+              title={t('sidebar.sortBy')}
+            >
+              <ArrowUpDown className="w-3.5 h-3.5" />
+              <select
+                value={rankingMode}
+                disabled={isSavedView}
+                onChange={(e) => handleRankingModeChange(e.target.value as RankingMode)}
+                className="bg-transparent text-xs text-foreground border-none outline-none cursor-pointer"
+              >
+                {RANKING_MODES.map(mode => (
+                  <option key={mode} value={mode} className="bg-background">{t(`sidebar.sort.${mode}`)}</option>
+                ))}
+              </select>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setHideRead(!hideRead)}
+              className={hideRead ? 'h-8 w-8 text-wechat bg-wechat/10' : 'h-8 w-8 text-muted-foreground hover:text-foreground'}
+              title={hideRead ? t('sidebar.showRead') : t('sidebar.hideRead')}
+            >
+              {hideRead ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setChatScope(chatScope ? null : { type: 'feed' })}
+              className={chatScope ? 'h-8 w-8 text-wechat bg-wechat/10' : 'h-8 w-8 text-muted-foreground hover:text-foreground'}
+              title={t('chat.askFeed')}
+            >
+              <MessageCircle className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleSummarizeVisible}
+              disabled={summaryProgress.active || activeView !== 'feed' || filteredFeeds.every(feed => feed.aiSummary)}
+              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+              title={t('sidebar.summarizeVisible')}
+            >
+              <Wand2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleMarkAllRead}
+              disabled={filteredFeeds.every(feed => isRead(feed.id))}
+              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+              title={t('sidebar.markAllRead')}
+            >
+              <CheckCheck className="w-4 h-4" />
+            </Button>
+          </div>
           {tagFilter && (
             <div className="flex items-center gap-1 px-2 py-1 bg-wechat/10 border border-wechat/30 rounded-full">
               <span className="text-xs text-wechat">标签: {tagFilter}</span>
@@ -292,58 +619,122 @@ function Sidebar() {
         </div>
       </div>
 
-      {/* Filter Tabs - 动态生成 */}
-      <div className="px-4 py-3 border-b border-border bg-card/80 overflow-x-auto">
-        <Tabs value={activeFilter} onValueChange={setActiveFilter}>
-          <TabsList className="bg-secondary border border-border flex-wrap h-auto gap-1">
-            <TabsTrigger 
-              value="all" 
-              className="data-[state=active]:bg-wechat/20 data-[state=active]:text-wechat text-xs"
+      {/* Batch Summary Progress */}
+      {summaryProgress.total > 0 && (
+        <div className="px-4 py-2 border-b border-border bg-card/80 text-xs">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-muted-foreground">
+              {t('sidebar.summaryProgress', { finished: summaryProgress.finished, total: summaryProgress.total })}
+              {summaryProgress.failed > 0 && (
+                <span className="text-red-400"> · {t('sidebar.summaryFailed', { count: summaryProgress.failed })}</span>
+              )}
+            </span>
+            <button
+              onClick={summaryProgress.active || summaryProgress.paused ? cancelSummaries : clearSummaries}
+              className="text-muted-foreground hover:text-foreground flex items-center gap-1"
+              title={summaryProgress.active || summaryProgress.paused ? t('common.cancel') : t('common.close')}
             >
-              {t('sidebar.all')} ({sourceCounts.all})
-            </TabsTrigger>
-            {availableSources.map(source => (
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="mt-1 h-1 rounded-full bg-secondary overflow-hidden">
+            <div
+              className="h-full bg-wechat transition-all"
+              style={{ width: `${(summaryProgress.finished / summaryProgress.total) * 100}%` }}
+            />
+          </div>
+          {summaryProgress.paused && summaryQueue.stoppedReason && (
+            <div className="mt-1 flex items-center justify-between gap-2 text-amber-500">
+              <span>{t(`sidebar.summaryStopped.${summaryQueue.stoppedReason}`)}</span>
+              <button onClick={retrySummaries} className="hover:text-amber-400 flex-shrink-0">
+                {t('sidebar.summaryResume')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Filter Tabs - 动态生成 */}
+      {activeView === 'feed' && !chatScope && (
+        <div className="px-4 py-3 border-b border-border bg-card/80 overflow-x-auto">
+          <Tabs value={activeFilter} onValueChange={setActiveFilter}>
+            <TabsList className="bg-secondary border border-border flex-wrap h-auto gap-1">
               <TabsTrigger 
-                key={source}
-                value={source} 
+                value="all" 
                 className="data-[state=active]:bg-wechat/20 data-[state=active]:text-wechat text-xs"
               >
-                {source} ({sourceCounts[source] || 0})
+                {t('sidebar.all')} ({sourceCounts.all})
+                {unreadCounts.all > 0 && (
+                  <span className="ml-1 px-1.5 rounded-full bg-wechat text-white text-[10px]">{unreadCounts.all}</span>
+                )}
               </TabsTrigger>
-            ))}
-          </TabsList>
-        </Tabs>
-      </div>
+              {availableSources.map(source => (
+                <TabsTrigger 
+                  key={source}
+                  value={source} 
+                  className="data-[state=active]:bg-wechat/20 data-[state=active]:text-wechat text-xs"
+                >
+                  {source} ({sourceCounts[source] || 0})
+                  {unreadCounts[source] > 0 && (
+                    <span className="ml-1 px-1.5 rounded-full bg-wechat text-white text-[10px]">{unreadCounts[source]}</span>
+                  )}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+      )}
 
-      {/* Feed List */}
-      <ScrollArea className="flex-1 relative">
-        {smartLoading ? (
-          <div className="absolute inset-0 flex flex-col items-center justify-center">
-            {/* WeChat Green Bouncing Dots Loader */}
-            <div className="flex items-center gap-2 mb-4">
-              <div className="w-3 h-3 rounded-full bg-wechat animate-bounce-dot" style={{ animationDelay: '0ms' }} />
-              <div className="w-3 h-3 rounded-full bg-wechat/80 animate-bounce-dot" style={{ animationDelay: '150ms' }} />
-              <div className="w-3 h-3 rounded-full bg-wechat/60 animate-bounce-dot" style={{ animationDelay: '300ms' }} />
-            </div>
-            {/* Elegant text with fade animation */}
-            <p className="text-sm font-light text-wechat/80 animate-pulse-text">
-              {t('sidebar.loading')}
-            </p>
-          </div>
-        ) : (
-          <div className="p-4">
-            {filteredFeeds.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
-              <Filter className="w-12 h-12 mb-4 opacity-50" />
-              <p className="text-sm">{t('sidebar.noFeeds')}</p>
-              <p className="text-xs mt-2">{t('sidebar.noFeedsHint')}</p>
+      {/* Chat */}
+      {chatScope ? (
+        <ChatPanel
+          scope={chatScope}
+          items={filteredFeeds}
+          onScopeChange={setChatScope}
+          onClose={() => setChatScope(null)}
+        />
+      ) : (
+        // Feed List
+        <ScrollArea className="flex-1 relative">
+          {activeView === 'digest' ? (
+            <DigestView />
+          ) : activeView === 'archive' ? (
+            <ArchiveView />
+          ) : smartLoading ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center">
+              {/* WeChat Green Bouncing Dots Loader */}
+              <div className="flex items-center gap-2 mb-4">
+                <div className="w-3 h-3 rounded-full bg-wechat animate-bounce-dot" style={{ animationDelay: '0ms' }} />
+                <div className="w-3 h-3 rounded-full bg-wechat/80 animate-bounce-dot" style={{ animationDelay: '150ms' }} />
+                <div className="w-3 h-3 rounded-full bg-wechat/60 animate-bounce-dot" style={{ animationDelay: '300ms' }} />
+              </div>
+              {/* Elegant text with fade animation */}
+              <p className="text-sm font-light text-wechat/80 animate-pulse-text">
+                {t('sidebar.loading')}
+              </p>
             </div>
           ) : (
-              <FeedList feeds={filteredFeeds} onFeedUpdate={handleFeedUpdate} />
-            )}
-          </div>
-        )}
-      </ScrollArea>
+            <div className="p-4">
+              {filteredFeeds.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                <Filter className="w-12 h-12 mb-4 opacity-50" />
+                <p className="text-sm">{isSavedView ? t('sidebar.noSaved') : t('sidebar.noFeeds')}</p>
+                <p className="text-xs mt-2">{isSavedView ? t('sidebar.noSavedHint') : t('sidebar.noFeedsHint')}</p>
+              </div>
+            ) : (
+                <FeedList
+                  feeds={filteredFeeds}
+                  newCount={newCount}
+                  summaryStatus={summaryStatus}
+                  onFeedUpdate={handleFeedUpdate}
+                  onAsk={(feed) => setChatScope({ type: 'item', item: feed })}
+                  trends={trends}
+                />
+              )}
+            </div>
+          )}
+        </ScrollArea>
+      )}
 
       {/* Footer */}
       <div className="px-4 py-2 border-t border-border bg-card/80 text-xs text-muted-foreground">
@@ -0,0 +1,50 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+  title?: string;
+}
+
+/**
+ * 迷你走势图：按数值范围缩放的折线，少于两个点时不显示
+ */
+export const Sparkline: React.FC<SparklineProps> = ({
+  values,
+  width = 40,
+  height = 12,
+  className,
+  title,
+}) => {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const step = width / (values.length - 1);
+  // 上下各留 1px，避免线条被裁切
+  const points = values
+    .map((value, index) => `${(index * step).toFixed(1)},${(height - 1 - ((value - min) / range) * (height - 2)).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn('flex-shrink-0 overflow-visible', className)}
+    >
+      {title && <title>{title}</title>}
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+};
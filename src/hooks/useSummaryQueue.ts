@@ -0,0 +1,77 @@
+/*
+ *   Copyright (c) 2025 
+ *   All rights reserved.
+ */
+
+/**
+ * 批量摘要队列 Hook
+ * 队列由后台 service worker 持有，这里只订阅其在 storage 中的状态并发送指令
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { FeedItem } from '@/types/index';
+import { SummaryQueueState, SummaryTaskStatus } from '@/types/summaryQueue';
+import { safeRuntimeSendMessage, safeStorageGet } from '@/utils/chrome';
+import { logger } from '@/utils/logger';
+
+// 与 background/summaryQueue.ts 中的 SUMMARY_QUEUE_KEY 保持一致
+const SUMMARY_QUEUE_KEY = 'summary_queue';
+
+export function useSummaryQueue() {
+  const [queue, setQueue] = useState<SummaryQueueState>({ tasks: [], updatedAt: 0 });
+
+  useEffect(() => {
+    safeStorageGet([SUMMARY_QUEUE_KEY]).then((result) => {
+      const stored = result[SUMMARY_QUEUE_KEY] as SummaryQueueState | undefined;
+      if (stored?.tasks) setQueue(stored);
+    });
+
+    if (typeof chrome === 'undefined' || !chrome.storage?.onChanged) return;
+    const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'local' && changes[SUMMARY_QUEUE_KEY]) {
+        setQueue((changes[SUMMARY_QUEUE_KEY].newValue as SummaryQueueState | undefined) || { tasks: [], updatedAt: 0 });
+      }
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, []);
+
+  // 各条目的任务状态
+  const statusById = useMemo(
+    () => new Map<string, SummaryTaskStatus>(queue.tasks.map(task => [task.id, task.status])),
+    [queue]
+  );
+
+  const progress = useMemo(() => {
+    const total = queue.tasks.length;
+    const finished = queue.tasks.filter(task => task.status !== 'pending' && task.status !== 'running').length;
+    const failed = queue.tasks.filter(task => task.status === 'error').length;
+    const hasPending = queue.tasks.some(task => task.status === 'pending');
+    // 因预算或 API 未配置暂停的队列不算进行中，可以继续或关闭
+    const paused = hasPending && !!queue.stoppedReason && queue.stoppedReason !== 'cancelled';
+    const active = queue.tasks.some(task => task.status === 'running') || (hasPending && !queue.stoppedReason);
+    return { total, finished, failed, active, paused };
+  }, [queue]);
+
+  const enqueue = useCallback(async (items: FeedItem[]) => {
+    try {
+      await safeRuntimeSendMessage({ type: 'ENQUEUE_SUMMARIES', data: { items } });
+    } catch (error) {
+      logger.error('[SummaryQueue] Failed to enqueue summaries:', error);
+    }
+  }, []);
+
+  const cancel = useCallback(async () => {
+    await safeRuntimeSendMessage({ type: 'CANCEL_SUMMARY_QUEUE' });
+  }, []);
+
+  const clear = useCallback(async () => {
+    await safeRuntimeSendMessage({ type: 'CLEAR_SUMMARY_QUEUE' });
+  }, []);
+
+  const retry = useCallback(async () => {
+    await safeRuntimeSendMessage({ type: 'RETRY_SUMMARY_QUEUE' });
+  }, []);
+
+  return { queue, statusById, progress, enqueue, cancel, clear, retry };
+}
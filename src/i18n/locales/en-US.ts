@@ -23,6 +23,10 @@ export const enUS: TranslationMap = {
   // Sidebar
   'sidebar.title': 'InfoTrend',
   'sidebar.search': 'Search feeds...',
+  'sidebar.semanticSearch': 'Search by meaning...',
+  'sidebar.semanticOn': 'Semantic search: find items by meaning (uses the embeddings API)',
+  'sidebar.semanticOff': 'Back to keyword search',
+  'sidebar.semanticUnsupported': 'The current AI provider has no embeddings API. Choose another provider to use semantic search.',
   'sidebar.noFeeds': 'No feeds available',
   'sidebar.noFeedsHint': 'Click refresh to get latest content',
   'sidebar.feedCount': '{count} feeds',
@@ -30,7 +34,27 @@ export const enUS: TranslationMap = {
   'sidebar.all': 'All',
   'sidebar.switchToLight': 'Switch to light mode',
   'sidebar.switchToDark': 'Switch to dark mode',
+  'sidebar.hideRead': 'Hide read items',
+  'sidebar.showRead': 'Show read items',
+  'sidebar.markAllRead': 'Mark all as read',
+  'sidebar.digest': 'Digest',
+  'sidebar.archive': 'Archive',
+  'sidebar.archiveHint': 'Browse every item fetched in the past',
+  'sidebar.summarizeVisible': 'Summarize all visible items',
+  'sidebar.summaryProgress': 'AI summaries {finished}/{total}',
+  'sidebar.summaryFailed': '{count} failed',
+  'sidebar.summaryResume': 'Resume',
+  'sidebar.summaryStopped.budget': 'Paused: daily AI budget reached',
+  'sidebar.summaryStopped.api_not_configured': 'Paused: AI API is not configured',
+  'sidebar.sortBy': 'Sort by',
+  'sidebar.sort.hot': 'Hot',
+  'sidebar.sort.newest': 'Newest',
+  'sidebar.sort.discussed': 'Most discussed',
+  'sidebar.sort.personalized': 'For you',
   'sidebar.loading': 'Loading',
+  'sidebar.saved': 'Saved',
+  'sidebar.noSaved': 'No saved items yet',
+  'sidebar.noSavedHint': 'Click the star on a feed to save it here',
 
   // Smart Refresh
   'refresh.neverUpdated': 'Never updated',
@@ -40,9 +64,59 @@ export const enUS: TranslationMap = {
   'refresh.daysAgo': '{days} days ago',
   'refresh.fetching': 'Fetching latest data...',
 
+  // Chat
+  'chat.scopeItem': 'Asking about: {title}',
+  'chat.scopeFeed': 'Asking about the current feed ({count} items)',
+  'chat.askFeed': 'Ask about the whole feed',
+  'chat.clear': 'Clear conversation',
+  'chat.close': 'Close chat',
+  'chat.emptyItem': 'Ask anything about this item',
+  'chat.exampleItem': 'e.g. "What problem does it solve?" or "How does it compare to alternatives?"',
+  'chat.emptyFeed': 'Ask about everything in your current feed',
+  'chat.exampleFeed': 'e.g. "What happened in Rust this week?"',
+  'chat.placeholder': 'Ask a question...',
+  'chat.send': 'Send',
+  'chat.sources': 'Sources',
+  'chat.error': 'Failed to get an answer',
+
+  // Digest
+  'digest.title': 'Daily Digest',
+  'digest.empty': 'No digest yet',
+  'digest.emptyHint': 'A digest is written after the 6 AM refresh when the AI API is configured',
+  'digest.generate': 'Generate digest for today',
+  'digest.generating': 'Writing digest...',
+  'digest.generatedAt': 'Generated {time} from {count} items',
+  'digest.error': 'Digest generation failed',
+
+  // Archive
+  'archive.search': 'Search the whole archive...',
+  'archive.firstSeen': 'First seen {time}',
+  'archive.lastSeen': 'Last seen {time}',
+  'archive.dayCount': '{count} items first seen on this day',
+  'archive.searchCount': '{count} matching items',
+  'archive.empty': 'Nothing was archived on this day',
+  'archive.noResults': 'No archived items match',
+  'archive.emptyHint': 'Every refresh adds the fetched items to the archive, including ones beyond the display limit',
+
   // Feed List
+  'feed.starsGained.daily': '+{count} today',
+  'feed.starsGained.weekly': '+{count} this week',
+  'feed.starsGained.monthly': '+{count} this month',
+  'feed.openSource': 'Open on {source}',
+  'feed.newSinceLastVisit': '{count} new since last visit ↑',
+  'feed.unread': 'Unread',
+  'feed.ask': 'Ask AI about this',
+  'feed.dismiss': 'Dismiss',
+  'feed.forYou': 'For you',
+  'feed.forYouHint': 'Matches your learned interests',
+  'feed.rising': 'Rising',
+  'feed.risingHint': '+{count} in the last {hours}h',
+  'feed.trend.score': 'Score across refreshes',
+  'feed.trend.upvotes': 'Stars / upvotes across refreshes',
+  'feed.trend.commentCount': 'Comments across refreshes',
   'feed.generateSummary': 'Generate AI Summary',
   'feed.generating': 'Generating...',
+  'feed.queued': 'Queued...',
   'feed.retrying': 'Retrying...',
   'feed.aiSummary': 'AI Summary',
   'feed.apiNotConfigured': 'API Not Configured',
@@ -74,6 +148,8 @@ export const enUS: TranslationMap = {
   'settings.tab.api': 'AI Config',
   'settings.tab.data': 'Data',
   'settings.tab.appearance': 'Appearance',
+  'settings.tab.rules': 'Rules',
+  'settings.tab.health': 'Health',
 
   // Settings Page - Sources
   'settings.sources.title': 'Source Management',
@@ -93,7 +169,37 @@ export const enUS: TranslationMap = {
   'settings.sources.deletedDesc': 'Source deleted, please save settings',
   'settings.sources.updated': 'Updated',
   'settings.sources.updatedDesc': 'Source updated, please save settings',
+  'settings.sources.reddit.subreddits': 'Subreddits, comma separated (e.g. MachineLearning, LocalLLaMA)',
+  'settings.sources.reddit.flairs': 'Only these flairs, comma separated (empty = all)',
+  'settings.sources.reddit.sort.hot': 'Hot',
+  'settings.sources.reddit.sort.top': 'Top',
+  'settings.sources.reddit.sort.new': 'New',
+  'settings.sources.reddit.sort.rising': 'Rising',
+  'settings.sources.reddit.window.hour': 'Past hour',
+  'settings.sources.reddit.window.day': 'Past day',
+  'settings.sources.reddit.window.week': 'Past week',
+  'settings.sources.reddit.window.month': 'Past month',
+  'settings.sources.reddit.window.year': 'Past year',
+  'settings.sources.reddit.window.all': 'All time',
+  'settings.sources.hn.feed.top': 'Top stories',
+  'settings.sources.hn.feed.best': 'Best stories',
+  'settings.sources.hn.feed.new': 'New stories',
+  'settings.sources.hn.feed.ask': 'Ask HN',
+  'settings.sources.hn.feed.show': 'Show HN',
+  'settings.sources.hn.feed.job': 'Jobs',
+  'settings.sources.hn.feed.search': 'Keyword search',
+  'settings.sources.hn.query': 'Search keywords (e.g. rust, llm)',
+  'settings.sources.github.since.daily': 'Today',
+  'settings.sources.github.since.weekly': 'This week',
+  'settings.sources.github.since.monthly': 'This month',
+  'settings.sources.github.anySpoken': 'Any spoken language',
+  'settings.sources.github.languages': 'Languages, comma separated (e.g. python, rust; empty = all)',
   'settings.sources.added': 'Added',
+  'settings.sources.duplicate': 'Duplicate as new instance',
+  'settings.sources.copySuffix': '(copy)',
+  'settings.sources.arxiv.keywords': 'Keywords, comma separated (e.g. diffusion, RLHF)',
+  'settings.sources.arxiv.query': 'Raw search_query (overrides categories and keywords)',
+  'settings.sources.arxiv.queryHint': 'Selected categories are OR-ed, then AND-ed with any keyword. Empty uses cs.AI, cs.LG, cs.CL.',
   'settings.sources.addedDesc': 'New source added, please save settings',
   'settings.sources.restored': 'Restored',
   'settings.sources.restoredDesc': 'Default sources restored, please save settings',
@@ -101,6 +207,8 @@ export const enUS: TranslationMap = {
   'settings.sources.confirmReset': 'Are you sure you want to restore default sources? This will overwrite current configuration.',
   'settings.sources.maxItems': 'Max Items',
   'settings.sources.maxItemsDesc': 'Maximum number of feeds to display, recommended 50-150',
+  'settings.sources.archiveRetention': 'Archive Retention (days)',
+  'settings.sources.archiveRetentionDesc': 'Archived items not seen again for this many days are deleted. 0 keeps them forever.',
   'settings.sources.noRss': 'No RSS feeds',
   'settings.sources.builtin': 'Built-in Sources',
   'settings.sources.rss': 'RSS Feeds',
@@ -142,6 +250,12 @@ export const enUS: TranslationMap = {
 
   // Settings Page - AI Config
   'settings.api.title': 'AI Summary Configuration',
+  'settings.api.provider': 'Provider',
+  'settings.api.provider.openai': 'OpenAI compatible',
+  'settings.api.provider.anthropic': 'Anthropic',
+  'settings.api.provider.gemini': 'Google Gemini',
+  'settings.api.provider.ollama': 'Ollama (local)',
+  'settings.api.providerDesc': 'API format used for requests. Base URL may be left empty for Anthropic, Gemini and Ollama to use the official endpoint; Ollama does not need an API key.',
   'settings.api.baseUrl': 'API Base URL',
   'settings.api.baseUrlPlaceholder': 'https://api.openai.com/v1',
   'settings.api.baseUrlDesc': 'LLM service API URL, supports any OpenAI compatible service (DeepSeek, Groq, local Ollama, etc.)',
@@ -151,12 +265,60 @@ export const enUS: TranslationMap = {
   'settings.api.model': 'Model Name',
   'settings.api.modelPlaceholder': 'gpt-4o-mini',
   'settings.api.modelDesc': 'Model name to use, e.g., gpt-4o-mini, deepseek-chat, llama-3.1-70b-versatile',
+  'settings.api.modelSelect': 'Select a model',
+  'settings.api.modelManual': 'Enter model name manually',
+  'settings.api.fetchModels': 'Fetch models',
+  'settings.api.modelsFound': '{count} models available from this provider.',
+  'settings.api.modelsEmpty': 'The provider returned no models. Enter the model name manually.',
+  'settings.api.embeddingModel': 'Embedding Model',
+  'settings.api.embeddingUnsupported': 'Not available for this provider',
+  'settings.api.embeddingModelDesc': 'Used by semantic search in the side panel. Leave empty to use the provider default. Vectors are stored locally in IndexedDB.',
+  'settings.api.ollamaOriginsHint': 'Ollama rejects requests from browser extensions by default. Set OLLAMA_ORIGINS=chrome-extension://* before starting Ollama.',
+  'settings.api.connection': 'Connection',
+  'settings.api.connectionDesc': 'Sends a tiny request with the settings above (no need to save first). Test requests do not count toward the daily budget.',
+  'settings.api.testConnection': 'Test connection',
+  'settings.api.testing': 'Testing...',
+  'settings.api.testSuccess': 'Connected. {model} replied in {latency} ms.',
+  'settings.api.errorDetail': 'Server message: {detail}',
+  'settings.api.error.not_configured': 'Settings are incomplete. Fill in the model, the API key and, for OpenAI compatible services, the Base URL.',
+  'settings.api.error.auth': 'The API key was rejected (HTTP {status}). Check that it is correct and allowed to use this model.',
+  'settings.api.error.not_found': 'Nothing was found at this address (HTTP 404). The Base URL or the model name is probably wrong.',
+  'settings.api.error.rate_limit': 'The server was reached, but it refused the request because of rate limits or exhausted quota (HTTP 429).',
+  'settings.api.error.server': 'The service had an internal error (HTTP {status}). Your settings may be fine; try again later.',
+  'settings.api.error.network': 'Could not reach the server. Check the Base URL and your network, and make sure local services such as Ollama are running.',
+  'settings.api.error.timeout': 'The server did not respond within 15 seconds.',
+  'settings.api.error.invalid_response': 'The server responded, but not like an API. The Base URL probably points to a web page instead of the API endpoint.',
+  'settings.api.error.ollama_origin': 'Ollama refused the request from the extension (HTTP 403). Allow extension origins by setting OLLAMA_ORIGINS=chrome-extension://* in the environment of the Ollama server, then restart Ollama.',
+  'settings.api.error.request_failed': 'The request was rejected (HTTP {status}). Check the model name and the provider type.',
+  'settings.api.contextTokens': 'Article Context Budget (tokens)',
+  'settings.api.contextTokensDesc': 'Before summarizing, the article page (or GitHub README) is downloaded and its main text is trimmed to this many tokens. 0 sends only the title and description.',
+  'settings.api.batch': 'Batch Summaries',
+  'settings.api.concurrency': 'Concurrency',
+  'settings.api.requestBudget': 'Daily requests',
+  'settings.api.tokenBudget': 'Daily tokens',
+  'settings.api.budgetDesc': 'Batch summarization pauses once either daily limit is reached. 0 means unlimited.',
+  'settings.api.usageToday': 'Today: {requests} requests, about {tokens} tokens.',
   'settings.api.examples': 'Configuration Examples',
   'settings.api.usage': 'Usage Guide',
   'settings.api.usageHint1': 'AI summaries are generated on-demand, click "Generate AI Summary" button on feed cards',
   'settings.api.usageHint2': 'Generated summaries are cached for 7 days to avoid duplicate requests',
   'settings.api.usageHint3': 'If API is not configured, you will be prompted to go to settings',
 
+  // Settings Page - Prompt Templates
+  'settings.prompts.title': 'Prompt Templates',
+  'settings.prompts.description': 'Tune the length, tone and focus of AI output. Changes take effect after saving.',
+  'settings.prompts.kind.summary': 'Summary',
+  'settings.prompts.kind.tags': 'Tags',
+  'settings.prompts.kind.recommendations': 'Recommendations',
+  'settings.prompts.allSources': 'All source types',
+  'settings.prompts.customized': 'Customized',
+  'settings.prompts.usingDefault': 'Using default',
+  'settings.prompts.reset': 'Reset to default',
+  'settings.prompts.removeOverride': 'Remove override',
+  'settings.prompts.variables': 'Variables:',
+  'settings.prompts.unknownVariables': 'Unknown variables: {variables}. This template will be ignored until they are fixed.',
+  'settings.prompts.hint': 'Lines whose variables are all empty are left out. A source type override replaces the summary template for items from that source type only.',
+
   // Settings Page - Data Management
   'settings.data.title': 'Data Management',
   'settings.data.export': 'Export Data',
@@ -165,6 +327,16 @@ export const enUS: TranslationMap = {
   'settings.data.import': 'Import Data',
   'settings.data.importData': 'Import Data',
   'settings.data.importFormats': 'Supported formats: JSON, CSV',
+  'settings.data.opml': 'OPML Subscriptions',
+  'settings.data.exportOpml': 'Export OPML',
+  'settings.data.importOpml': 'Import OPML',
+  'settings.data.opmlDesc': 'Move RSS subscriptions between readers. Feeds already added are skipped.',
+  'settings.data.opmlPreview': '{count} new RSS sources will be added',
+  'settings.data.opmlSkipped': '{count} duplicate feeds skipped',
+  'settings.data.opmlCategoryUnknown': 'Category "{category}" is not a built-in category and was set to News. Pick another category if needed.',
+  'settings.data.opmlConfirm': 'Add Sources',
+  'settings.data.opmlAdded': '{count} sources added, please save settings',
+  'settings.data.opmlInvalid': 'Not a valid OPML file',
   'settings.data.danger': 'Danger Zone',
   'settings.data.clearAll': 'Clear All Data',
   'settings.data.clearAllDesc': 'This will clear all cached feeds and AI summaries, cannot be undone',
@@ -181,6 +353,65 @@ export const enUS: TranslationMap = {
   'settings.data.clearSuccessDesc': 'All data has been cleared',
   'settings.data.clearFailed': 'Clear Failed',
   'settings.data.clearFailedDesc': 'Unable to clear data',
+  'settings.storage.title': 'Storage Usage',
+  'settings.storage.description': 'Feeds, source caches, article text and AI summaries are stored in IndexedDB; settings stay in extension storage.',
+  'settings.storage.refresh': 'Refresh',
+  'settings.storage.chrome': 'Extension storage (settings, favorites)',
+  'settings.storage.items': 'Feed items',
+  'settings.storage.caches': 'Source and article caches',
+  'settings.storage.ai': 'AI summaries and tags',
+  'settings.storage.records': '{count} records',
+  'settings.storage.cleanup': 'Clean Up Now',
+  'settings.storage.cleaned': 'Removed {expired} expired and {evicted} least recently used records',
+  'settings.storage.hint': 'Expired caches are removed automatically after each refresh. When a cache exceeds its limit, the least recently used records are evicted first.',
+
+  // Settings Page - Rules
+  'settings.rules.title': 'Keyword Rules',
+  'settings.rules.desc': 'Hide, highlight, auto-favorite or boost items. Preview runs against the {count} items currently loaded.',
+  'settings.rules.add': 'Add Rule',
+  'settings.rules.empty': 'No rules yet',
+  'settings.rules.field.any': 'Any field',
+  'settings.rules.field.title': 'Title',
+  'settings.rules.field.summary': 'Summary',
+  'settings.rules.field.author': 'Author',
+  'settings.rules.field.source': 'Source',
+  'settings.rules.field.tags': 'Tags',
+  'settings.rules.match.text': 'Contains',
+  'settings.rules.match.regex': 'Regex',
+  'settings.rules.action.hide': 'Hide',
+  'settings.rules.action.highlight': 'Highlight',
+  'settings.rules.action.favorite': 'Auto-favorite',
+  'settings.rules.action.boost': 'Boost',
+  'settings.rules.patternPlaceholder': 'e.g. crypto',
+  'settings.rules.caseSensitive': 'Case sensitive',
+  'settings.rules.invalidRegex': 'Invalid regex',
+  'settings.rules.matchCount': 'Matches {count} current items',
+  'settings.rules.more': '…and {count} more',
+
+  // Settings Page - Interest Profile
+  'settings.interest.title': 'Learned Interests',
+  'settings.interest.desc': 'Learned on this device from {count} opens, favorites and dismissals. Used by the "For you" sort.',
+  'settings.interest.empty': 'Nothing learned yet. Open, favorite or dismiss a few items in the side panel.',
+  'settings.interest.liked': 'Top interests',
+  'settings.interest.disliked': 'Less interested',
+  'settings.interest.prefix.tag': 'Tag',
+  'settings.interest.prefix.source': 'Source',
+  'settings.interest.reset': 'Reset',
+  'settings.interest.resetConfirm': 'Clear all learned interests?',
+
+  // Settings Page - Source Health
+  'settings.health.title': 'Source Health',
+  'settings.health.desc': 'Result of the most recent fetch for each source, recorded on every refresh',
+  'settings.health.status.ok': 'OK',
+  'settings.health.status.not_modified': 'Not Modified',
+  'settings.health.status.error': 'Error',
+  'settings.health.status.unknown': 'No Data',
+  'settings.health.lastSuccess': 'Last success',
+  'settings.health.lastError': 'Last error',
+  'settings.health.httpStatus': 'HTTP',
+  'settings.health.items': 'Items',
+  'settings.health.duration': 'Duration',
+  'settings.health.testNow': 'Test fetch now',
 
   // Settings Page - Appearance
   'settings.appearance.title': 'Appearance Settings',
@@ -23,6 +23,10 @@ export const zhCN: TranslationMap = {
   // 侧边栏
   'sidebar.title': 'InfoTrend',
   'sidebar.search': '搜索资讯...',
+  'sidebar.semanticSearch': '按含义搜索...',
+  'sidebar.semanticOn': '语义搜索：按含义查找内容（使用向量接口）',
+  'sidebar.semanticOff': '切换回关键词搜索',
+  'sidebar.semanticUnsupported': '当前 AI 服务商不提供向量接口，请切换服务商后再使用语义搜索。',
   'sidebar.noFeeds': '暂无资讯',
   'sidebar.noFeedsHint': '点击刷新按钮获取最新内容',
   'sidebar.feedCount': '{count} 条资讯',
@@ -30,7 +34,27 @@ export const zhCN: TranslationMap = {
   'sidebar.all': '全部',
   'sidebar.switchToLight': '切换到普通模式',
   'sidebar.switchToDark': '切换到暗黑模式',
+  'sidebar.hideRead': '隐藏已读',
+  'sidebar.showRead': '显示已读',
+  'sidebar.markAllRead': '全部标为已读',
+  'sidebar.digest': '简报',
+  'sidebar.archive': '归档',
+  'sidebar.archiveHint': '浏览以往抓取的全部条目',
+  'sidebar.summarizeVisible': '为当前列表生成摘要',
+  'sidebar.summaryProgress': 'AI 摘要 {finished}/{total}',
+  'sidebar.summaryFailed': '{count} 条失败',
+  'sidebar.summaryResume': '继续',
+  'sidebar.summaryStopped.budget': '已暂停：达到每日 AI 用量上限',
+  'sidebar.summaryStopped.api_not_configured': '已暂停：AI API 未配置',
+  'sidebar.sortBy': '排序方式',
+  'sidebar.sort.hot': '热门',
+  'sidebar.sort.newest': '最新',
+  'sidebar.sort.discussed': '讨论最多',
+  'sidebar.sort.personalized': '为你推荐',
   'sidebar.loading': '加载中',
+  'sidebar.saved': '收藏',
+  'sidebar.noSaved': '还没有收藏的资讯',
+  'sidebar.noSavedHint': '点击资讯右上角的星标即可收藏到这里',
 
   // 智能刷新
   'refresh.neverUpdated': '从未更新',
@@ -40,9 +64,59 @@ export const zhCN: TranslationMap = {
   'refresh.daysAgo': '{days} 天前更新',
   'refresh.fetching': '正在获取最新数据...',
 
+  // 对话
+  'chat.scopeItem': '正在询问：{title}',
+  'chat.scopeFeed': '正在询问当前信息流（{count} 条）',
+  'chat.askFeed': '询问整个信息流',
+  'chat.clear': '清空对话',
+  'chat.close': '关闭对话',
+  'chat.emptyItem': '可以就这条内容提出任何问题',
+  'chat.exampleItem': '例如：“它解决了什么问题？”“和同类方案相比如何？”',
+  'chat.emptyFeed': '可以就当前信息流中的所有内容提问',
+  'chat.exampleFeed': '例如：“这周 Rust 有什么新动态？”',
+  'chat.placeholder': '输入问题...',
+  'chat.send': '发送',
+  'chat.sources': '引用来源',
+  'chat.error': '获取回答失败',
+
+  // 每日简报
+  'digest.title': '每日简报',
+  'digest.empty': '暂无简报',
+  'digest.emptyHint': '配置 AI API 后，每天早上 6 点刷新后会自动生成简报',
+  'digest.generate': '生成今日简报',
+  'digest.generating': '正在生成简报...',
+  'digest.generatedAt': '生成于 {time}，基于 {count} 条内容',
+  'digest.error': '简报生成失败',
+
+  // 历史归档
+  'archive.search': '在全部归档中搜索...',
+  'archive.firstSeen': '首次抓取于 {time}',
+  'archive.lastSeen': '最近出现于 {time}',
+  'archive.dayCount': '当天首次抓取 {count} 条',
+  'archive.searchCount': '找到 {count} 条',
+  'archive.empty': '当天没有归档条目',
+  'archive.noResults': '没有匹配的归档条目',
+  'archive.emptyHint': '每次刷新都会把抓取到的条目写入归档，包括超出显示上限的条目',
+
   // Feed 列表
+  'feed.starsGained.daily': '今日 +{count}',
+  'feed.starsGained.weekly': '本周 +{count}',
+  'feed.starsGained.monthly': '本月 +{count}',
+  'feed.openSource': '在 {source} 中打开',
+  'feed.newSinceLastVisit': '以上 {count} 条为上次访问后的新内容',
+  'feed.unread': '未读',
+  'feed.ask': '就此提问',
+  'feed.dismiss': '忽略',
+  'feed.forYou': '为你推荐',
+  'feed.forYouHint': '符合你的兴趣画像',
+  'feed.rising': '快速上升',
+  'feed.risingHint': '最近 {hours} 小时 +{count}',
+  'feed.trend.score': '历次刷新的分数走势',
+  'feed.trend.upvotes': '历次刷新的 star / 点赞走势',
+  'feed.trend.commentCount': '历次刷新的评论数走势',
   'feed.generateSummary': '生成 AI 摘要',
   'feed.generating': '生成中...',
+  'feed.queued': '排队中...',
   'feed.retrying': '重试中...',
   'feed.aiSummary': 'AI 摘要',
   'feed.apiNotConfigured': 'API 未配置',
@@ -74,6 +148,8 @@ export const zhCN: TranslationMap = {
   'settings.tab.api': 'AI 配置',
   'settings.tab.data': '数据管理',
   'settings.tab.appearance': '外观',
+  'settings.tab.rules': '规则',
+  'settings.tab.health': '健康状态',
 
   // 设置页面 - 数据源
   'settings.sources.title': '数据源管理',
@@ -93,6 +169,36 @@ export const zhCN: TranslationMap = {
   'settings.sources.deletedDesc': '数据源已删除，请保存设置',
   'settings.sources.updated': '已更新',
   'settings.sources.updatedDesc': '数据源已更新，请保存设置',
+  'settings.sources.duplicate': '复制为新实例',
+  'settings.sources.copySuffix': '(副本)',
+  'settings.sources.arxiv.keywords': '关键词，逗号分隔（如 diffusion, RLHF）',
+  'settings.sources.arxiv.query': '原始 search_query（设置后忽略分类和关键词）',
+  'settings.sources.arxiv.queryHint': '所选分类之间为 OR，再与任一关键词 AND 组合；留空则使用 cs.AI、cs.LG、cs.CL。',
+  'settings.sources.reddit.subreddits': '子版块，逗号分隔（如 MachineLearning, LocalLLaMA）',
+  'settings.sources.reddit.flairs': '仅保留这些 flair，逗号分隔（留空为全部）',
+  'settings.sources.reddit.sort.hot': '热门',
+  'settings.sources.reddit.sort.top': '最高分',
+  'settings.sources.reddit.sort.new': '最新',
+  'settings.sources.reddit.sort.rising': '上升中',
+  'settings.sources.reddit.window.hour': '过去一小时',
+  'settings.sources.reddit.window.day': '过去一天',
+  'settings.sources.reddit.window.week': '过去一周',
+  'settings.sources.reddit.window.month': '过去一月',
+  'settings.sources.reddit.window.year': '过去一年',
+  'settings.sources.reddit.window.all': '全部时间',
+  'settings.sources.hn.feed.top': '热门',
+  'settings.sources.hn.feed.best': '最佳',
+  'settings.sources.hn.feed.new': '最新',
+  'settings.sources.hn.feed.ask': 'Ask HN',
+  'settings.sources.hn.feed.show': 'Show HN',
+  'settings.sources.hn.feed.job': '招聘',
+  'settings.sources.hn.feed.search': '关键词搜索',
+  'settings.sources.hn.query': '搜索关键词（如 rust, llm）',
+  'settings.sources.github.since.daily': '今日',
+  'settings.sources.github.since.weekly': '本周',
+  'settings.sources.github.since.monthly': '本月',
+  'settings.sources.github.anySpoken': '不限自然语言',
+  'settings.sources.github.languages': '编程语言，逗号分隔（如 python, rust；留空为全部）',
   'settings.sources.added': '已添加',
   'settings.sources.addedDesc': '新数据源已添加，请保存设置',
   'settings.sources.restored': '已恢复',
@@ -105,6 +211,8 @@ export const zhCN: TranslationMap = {
   'settings.sources.pin': '置顶',
   'settings.sources.maxItems': '最大条目数',
   'settings.sources.maxItemsDesc': '控制显示的最大资讯条数，建议设置为 50-150',
+  'settings.sources.archiveRetention': '归档保留天数',
+  'settings.sources.archiveRetentionDesc': '超过该天数未再出现的归档条目会被删除，0 表示永久保留',
   'settings.sources.timeRange': '时间范围',
   'settings.sources.timeRange.1d': '最近1天',
   'settings.sources.timeRange.3d': '最近3天',
@@ -142,6 +250,12 @@ export const zhCN: TranslationMap = {
 
   // 设置页面 - AI 配置
   'settings.api.title': 'AI 摘要配置',
+  'settings.api.provider': '服务商',
+  'settings.api.provider.openai': 'OpenAI 兼容',
+  'settings.api.provider.anthropic': 'Anthropic',
+  'settings.api.provider.gemini': 'Google Gemini',
+  'settings.api.provider.ollama': 'Ollama（本地）',
+  'settings.api.providerDesc': '请求使用的 API 格式。Anthropic、Gemini 和 Ollama 的 Base URL 可留空以使用官方地址；Ollama 无需 API Key。',
   'settings.api.baseUrl': 'API Base URL',
   'settings.api.baseUrlPlaceholder': 'https://api.openai.com/v1',
   'settings.api.baseUrlDesc': 'LLM 服务的 API 地址，支持任意 OpenAI 兼容服务（如 DeepSeek、Groq、本地 Ollama 等）',
@@ -151,12 +265,60 @@ export const zhCN: TranslationMap = {
   'settings.api.model': '模型名称',
   'settings.api.modelPlaceholder': 'gpt-4o-mini',
   'settings.api.modelDesc': '要使用的模型名称，如 gpt-4o-mini、deepseek-chat、llama-3.1-70b-versatile 等',
+  'settings.api.modelSelect': '选择模型',
+  'settings.api.modelManual': '手动填写模型名称',
+  'settings.api.fetchModels': '获取模型列表',
+  'settings.api.modelsFound': '该服务商提供 {count} 个可用模型。',
+  'settings.api.modelsEmpty': '服务商没有返回任何模型，请手动填写模型名称。',
+  'settings.api.embeddingModel': '向量模型',
+  'settings.api.embeddingUnsupported': '该服务商不支持',
+  'settings.api.embeddingModelDesc': '用于侧边栏的语义搜索，留空使用服务商默认模型。向量保存在本地 IndexedDB 中。',
+  'settings.api.ollamaOriginsHint': 'Ollama 默认拒绝浏览器扩展的请求，启动 Ollama 前请设置 OLLAMA_ORIGINS=chrome-extension://*。',
+  'settings.api.connection': '连接测试',
+  'settings.api.connectionDesc': '使用上方的设置发送一个极小的请求（无需先保存）。测试请求不计入每日用量。',
+  'settings.api.testConnection': '测试连接',
+  'settings.api.testing': '测试中...',
+  'settings.api.testSuccess': '连接成功，{model} 在 {latency} 毫秒内响应。',
+  'settings.api.errorDetail': '服务器返回：{detail}',
+  'settings.api.error.not_configured': '设置不完整，请填写模型、API Key，OpenAI 兼容服务还需填写 Base URL。',
+  'settings.api.error.auth': 'API Key 被拒绝（HTTP {status}），请检查 Key 是否正确、是否有权使用该模型。',
+  'settings.api.error.not_found': '该地址下找不到接口（HTTP 404），Base URL 或模型名称可能有误。',
+  'settings.api.error.rate_limit': '已连接到服务器，但请求因限流或额度用尽被拒绝（HTTP 429）。',
+  'settings.api.error.server': '服务商内部错误（HTTP {status}），设置可能没有问题，请稍后重试。',
+  'settings.api.error.network': '无法连接到服务器，请检查 Base URL 和网络；如使用 Ollama 等本地服务，请确认已启动。',
+  'settings.api.error.timeout': '服务器在 15 秒内没有响应。',
+  'settings.api.error.invalid_response': '服务器有响应，但不是 API 格式，Base URL 可能指向了网页而不是 API 地址。',
+  'settings.api.error.ollama_origin': 'Ollama 拒绝了来自扩展的请求（HTTP 403）。请在 Ollama 服务的环境变量中设置 OLLAMA_ORIGINS=chrome-extension://* 以允许扩展访问，然后重启 Ollama。',
+  'settings.api.error.request_failed': '请求被拒绝（HTTP {status}），请检查模型名称和服务商类型。',
+  'settings.api.contextTokens': '正文上下文预算（token）',
+  'settings.api.contextTokensDesc': '生成摘要前会下载文章页面（GitHub 则为 README），提取正文并截断到该 token 数。设为 0 则只发送标题和简介。',
+  'settings.api.batch': '批量摘要',
+  'settings.api.concurrency': '并发数',
+  'settings.api.requestBudget': '每日请求数',
+  'settings.api.tokenBudget': '每日 token 数',
+  'settings.api.budgetDesc': '批量摘要达到任一每日上限后暂停，0 表示不限。',
+  'settings.api.usageToday': '今日：{requests} 次请求，约 {tokens} token。',
   'settings.api.examples': '配置示例',
   'settings.api.usage': '使用说明',
   'settings.api.usageHint1': 'AI 摘要是按需生成的，点击资讯卡片上的"生成 AI 摘要"按钮即可',
   'settings.api.usageHint2': '生成的摘要会自动缓存 7 天，避免重复请求',
   'settings.api.usageHint3': '如果未配置 API，点击生成时会提示前往设置',
 
+  // 设置页面 - Prompt 模板
+  'settings.prompts.title': 'Prompt 模板',
+  'settings.prompts.description': '调整 AI 输出的长度、语气和侧重点，保存后生效。',
+  'settings.prompts.kind.summary': '摘要',
+  'settings.prompts.kind.tags': '标签',
+  'settings.prompts.kind.recommendations': '推荐',
+  'settings.prompts.allSources': '所有来源类型',
+  'settings.prompts.customized': '已自定义',
+  'settings.prompts.usingDefault': '使用默认模板',
+  'settings.prompts.reset': '恢复默认',
+  'settings.prompts.removeOverride': '移除覆盖',
+  'settings.prompts.variables': '可用变量：',
+  'settings.prompts.unknownVariables': '未知变量：{variables}。修正前将忽略此模板。',
+  'settings.prompts.hint': '引用的变量全部为空的行会被省略。来源类型覆盖只替换该类型条目的摘要模板。',
+
   // 设置页面 - 数据管理
   'settings.data.title': '数据管理',
   'settings.data.export': '导出数据',
@@ -165,6 +327,16 @@ export const zhCN: TranslationMap = {
   'settings.data.import': '导入数据',
   'settings.data.importData': '导入数据',
   'settings.data.importFormats': '支持格式：JSON、CSV',
+  'settings.data.opml': 'OPML 订阅',
+  'settings.data.exportOpml': '导出 OPML',
+  'settings.data.importOpml': '导入 OPML',
+  'settings.data.opmlDesc': '在不同阅读器之间迁移 RSS 订阅，已存在的订阅会自动跳过',
+  'settings.data.opmlPreview': '将添加 {count} 个新的 RSS 数据源',
+  'settings.data.opmlSkipped': '已跳过 {count} 个重复订阅',
+  'settings.data.opmlCategoryUnknown': '分类“{category}”不是内置分类，已归为资讯，可在此修改。',
+  'settings.data.opmlConfirm': '添加数据源',
+  'settings.data.opmlAdded': '已添加 {count} 个数据源，请保存设置',
+  'settings.data.opmlInvalid': '不是有效的 OPML 文件',
   'settings.data.danger': '危险操作',
   'settings.data.clearAll': '清除所有数据',
   'settings.data.clearAllDesc': '此操作将清除所有缓存的资讯数据和 AI 摘要，不可恢复',
@@ -181,6 +353,65 @@ export const zhCN: TranslationMap = {
   'settings.data.clearSuccessDesc': '所有数据已清除',
   'settings.data.clearFailed': '清除失败',
   'settings.data.clearFailedDesc': '无法清除数据',
+  'settings.storage.title': '存储用量',
+  'settings.storage.description': '资讯条目、数据源缓存、文章正文和 AI 摘要保存在 IndexedDB 中，设置仍保存在扩展存储中。',
+  'settings.storage.refresh': '刷新',
+  'settings.storage.chrome': '扩展存储（设置、收藏）',
+  'settings.storage.items': '资讯条目',
+  'settings.storage.caches': '数据源与正文缓存',
+  'settings.storage.ai': 'AI 摘要与标签',
+  'settings.storage.records': '{count} 条记录',
+  'settings.storage.cleanup': '立即清理',
+  'settings.storage.cleaned': '已删除 {expired} 条过期记录和 {evicted} 条最久未使用的记录',
+  'settings.storage.hint': '每次刷新后会自动清理过期缓存；缓存超出上限时，优先淘汰最久未使用的记录。',
+
+  // 设置页面 - 规则
+  'settings.rules.title': '关键词规则',
+  'settings.rules.desc': '屏蔽、高亮、自动收藏或加权条目，预览基于当前已加载的 {count} 条内容',
+  'settings.rules.add': '添加规则',
+  'settings.rules.empty': '暂无规则',
+  'settings.rules.field.any': '任意字段',
+  'settings.rules.field.title': '标题',
+  'settings.rules.field.summary': '摘要',
+  'settings.rules.field.author': '作者',
+  'settings.rules.field.source': '来源',
+  'settings.rules.field.tags': '标签',
+  'settings.rules.match.text': '包含',
+  'settings.rules.match.regex': '正则',
+  'settings.rules.action.hide': '屏蔽',
+  'settings.rules.action.highlight': '高亮',
+  'settings.rules.action.favorite': '自动收藏',
+  'settings.rules.action.boost': '加权',
+  'settings.rules.patternPlaceholder': '如 crypto',
+  'settings.rules.caseSensitive': '区分大小写',
+  'settings.rules.invalidRegex': '正则无效',
+  'settings.rules.matchCount': '命中当前 {count} 条内容',
+  'settings.rules.more': '……还有 {count} 条',
+
+  // 设置页面 - 兴趣画像
+  'settings.interest.title': '兴趣画像',
+  'settings.interest.desc': '基于本机 {count} 次打开、收藏和忽略学习得到，用于“为你推荐”排序',
+  'settings.interest.empty': '暂未学习到偏好，在侧边栏中打开、收藏或忽略一些内容即可',
+  'settings.interest.liked': '感兴趣',
+  'settings.interest.disliked': '不太感兴趣',
+  'settings.interest.prefix.tag': '标签',
+  'settings.interest.prefix.source': '来源',
+  'settings.interest.reset': '重置',
+  'settings.interest.resetConfirm': '确定清空所有已学习的兴趣吗？',
+
+  // 设置页面 - 数据源健康
+  'settings.health.title': '数据源健康状态',
+  'settings.health.desc': '每次刷新都会记录各数据源最近一次的抓取结果',
+  'settings.health.status.ok': '正常',
+  'settings.health.status.not_modified': '未变化',
+  'settings.health.status.error': '错误',
+  'settings.health.status.unknown': '暂无数据',
+  'settings.health.lastSuccess': '最近成功',
+  'settings.health.lastError': '最近错误',
+  'settings.health.httpStatus': 'HTTP',
+  'settings.health.items': '条目数',
+  'settings.health.duration': '耗时',
+  'settings.health.testNow': '立即测试',
 
   // 设置页面 - 外观
   'settings.appearance.title': '外观设置',
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Loader2, PlugZap, RefreshCw, Edit2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AppConfig } from '@/types/index.ts';
+import { testConnection, listModels, ConnectionTestResult, ConnectionErrorKind } from '@/services/aiService.ts';
+import { useI18n } from '@/i18n';
+
+// 失败原因的通俗说明，附带接口返回的原始信息
+function ConnectionError({ kind, status, detail }: { kind: ConnectionErrorKind; status?: number; detail?: string }) {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-start gap-2 text-sm p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 max-w-lg">
+      <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      <div>
+        <p>{t(`settings.api.error.${kind}`, { status: status ?? '-' })}</p>
+        {detail && <p className="text-xs opacity-80 mt-1 break-all">{t('settings.api.errorDetail', { detail })}</p>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 模型字段：可从服务商获取模型列表并以下拉框选择，也可手动填写
+ */
+export function ModelField({ config, onChange }: { config: AppConfig; onChange: (model: string) => void }) {
+  const { t } = useI18n();
+  const [models, setModels] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Omit<ConnectionTestResult, 'ok' | 'latencyMs'> | null>(null);
+  const [emptyList, setEmptyList] = useState(false);
+
+  const currentModel = config.apiModel || '';
+
+  const handleFetchModels = async () => {
+    setLoading(true);
+    setError(null);
+    setEmptyList(false);
+    try {
+      const result = await listModels(config);
+      if (result.errorKind) {
+        setError(result);
+      }
+      setModels(result.models);
+      setEmptyList(!result.errorKind && result.models.length === 0);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 max-w-lg">
+        {models.length > 0 ? (
+          <select
+            value={currentModel}
+            onChange={(e) => onChange(e.target.value)}
+            className="flex-1 h-9 bg-secondary border border-border text-foreground rounded-md px-3"
+          >
+            <option value="" disabled>{t('settings.api.modelSelect')}</option>
+            {/* 已填写但不在列表中的模型仍保留为可选项 */}
+            {currentModel && !models.includes(currentModel) && (
+              <option value={currentModel}>{currentModel}</option>
+            )}
+            {models.map(model => (
+              <option key={model} value={model}>{model}</option>
+            ))}
+          </select>
+        ) : (
+          <Input
+            type="text"
+            placeholder={t('settings.api.modelPlaceholder')}
+            value={currentModel}
+            onChange={(e) => onChange(e.target.value)}
+            className="flex-1"
+          />
+        )}
+        {models.length > 0 && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setModels([])}
+            title={t('settings.api.modelManual')}
+          >
+            <Edit2 className="w-4 h-4" />
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={handleFetchModels} disabled={loading}>
+          {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+          {t('settings.api.fetchModels')}
+        </Button>
+      </div>
+      {models.length > 0 && (
+        <p className="text-xs text-muted-foreground">{t('settings.api.modelsFound', { count: models.length })}</p>
+      )}
+      {emptyList && (
+        <p className="text-xs text-muted-foreground">{t('settings.api.modelsEmpty')}</p>
+      )}
+      {error?.errorKind && <ConnectionError kind={error.errorKind} status={error.status} detail={error.detail} />}
+    </div>
+  );
+}
+
+/**
+ * 测试连接：用当前（未保存的）设置发送一个最小请求
+ */
+export function ConnectionTest({ config }: { config: AppConfig }) {
+  const { t } = useI18n();
+  const [testing, setTesting] = useState(false);
+  const [result, setResult] = useState<ConnectionTestResult | null>(null);
+
+  const handleTest = async () => {
+    setTesting(true);
+    setResult(null);
+    try {
+      setResult(await testConnection(config));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button variant="outline" onClick={handleTest} disabled={testing}>
+        {testing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <PlugZap className="w-4 h-4 mr-2" />}
+        {testing ? t('settings.api.testing') : t('settings.api.testConnection')}
+      </Button>
+      {result?.ok && (
+        <div className="flex items-center gap-2 text-sm p-3 rounded-lg bg-wechat/10 border border-wechat/30 text-wechat max-w-lg">
+          <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+          <span>{t('settings.api.testSuccess', { model: config.apiModel || '', latency: result.latencyMs })}</span>
+        </div>
+      )}
+      {result && !result.ok && result.errorKind && (
+        <ConnectionError kind={result.errorKind} status={result.status} detail={result.detail} />
+      )}
+    </div>
+  );
+}
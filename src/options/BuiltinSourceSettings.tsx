@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import {
+  SourceConfig, RedditSort, RedditTimeWindow, GitHubTrendingSince, HackerNewsFeed,
+} from '@/types/index.ts';
+import { cn } from '@/lib/utils.ts';
+import { useI18n } from '@/i18n';
+
+interface BuiltinSourceSettingsProps {
+  source: SourceConfig;
+  onChange: (updates: Partial<SourceConfig>) => void;
+}
+
+// 常用 ArXiv 分类
+const ARXIV_CATEGORIES = [
+  'cs.AI', 'cs.LG', 'cs.CL', 'cs.CV', 'cs.RO', 'cs.IR',
+  'cs.NE', 'cs.SE', 'cs.CR', 'cs.HC', 'stat.ML', 'eess.AS',
+];
+
+const REDDIT_SORTS: RedditSort[] = ['hot', 'top', 'new', 'rising'];
+const REDDIT_TIME_WINDOWS: RedditTimeWindow[] = ['hour', 'day', 'week', 'month', 'year', 'all'];
+
+const HN_FEEDS: HackerNewsFeed[] = ['top', 'best', 'new', 'ask', 'show', 'job', 'search'];
+const GITHUB_SINCE: GitHubTrendingSince[] = ['daily', 'weekly', 'monthly'];
+// GitHub Trending 支持的常用自然语言代码（空字符串表示不限）
+const GITHUB_SPOKEN_LANGUAGES = ['', 'en', 'zh', 'ja', 'ko', 'es', 'de', 'fr', 'ru', 'pt'];
+
+const inputClassName = 'w-full bg-transparent border border-border rounded px-2 h-6 text-[11px]';
+const selectClassName = 'bg-transparent border border-border rounded px-1 h-6 text-[11px]';
+
+// 逗号分隔文本 -> 去空白的数组
+function splitList(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+interface ListInputProps {
+  value?: string[];
+  placeholder: string;
+  onCommit: (values: string[]) => void;
+}
+
+/**
+ * 逗号分隔的列表输入框
+ * 失焦时解析，避免输入逗号时被立即吞掉；外部修改（重置、导入、复制数据源）时同步显示
+ */
+function ListInput({ value, placeholder, onCommit }: ListInputProps) {
+  const joined = (value ?? []).join(', ');
+  const [draft, setDraft] = useState(joined);
+
+  useEffect(() => {
+    setDraft(joined);
+  }, [joined]);
+
+  return (
+    <input
+      className={inputClassName}
+      placeholder={placeholder}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => onCommit(splitList(draft))}
+    />
+  );
+}
+
+/**
+ * 内置数据源的类型专属设置（按 source.type 渲染）
+ */
+export function BuiltinSourceSettings({ source, onChange }: BuiltinSourceSettingsProps) {
+  const { t } = useI18n();
+
+  if (source.type === 'ArXiv') {
+    const selected = source.arxivCategories ?? [];
+    const hasRawQuery = !!source.arxivQuery?.trim();
+
+    const toggleCategory = (category: string) => {
+      onChange({
+        arxivCategories: selected.includes(category)
+          ? selected.filter(c => c !== category)
+          : [...selected, category],
+      });
+    };
+
+    return (
+      <div className="space-y-2 mt-2">
+        <div className={cn('flex flex-wrap gap-1', hasRawQuery && 'opacity-50 pointer-events-none')}>
+          {ARXIV_CATEGORIES.map(category => (
+            <button
+              key={category}
+              type="button"
+              onClick={() => toggleCategory(category)}
+              className={cn(
+                'text-[10px] px-1.5 py-0.5 rounded border transition-colors',
+                selected.includes(category)
+                  ? 'bg-wechat/20 border-wechat/50 text-wechat'
+                  : 'border-border text-muted-foreground hover:border-wechat/50'
+              )}
+            >
+              {category}
+            </button>
+          ))}
+        </div>
+        <input
+          className={cn(inputClassName, hasRawQuery && 'opacity-50')}
+          placeholder={t('settings.sources.arxiv.keywords')}
+          value={source.arxivKeywords ?? ''}
+          disabled={hasRawQuery}
+          onChange={(e) => onChange({ arxivKeywords: e.target.value })}
+        />
+        <input
+          className={inputClassName}
+          placeholder={t('settings.sources.arxiv.query')}
+          value={source.arxivQuery ?? ''}
+          onChange={(e) => onChange({ arxivQuery: e.target.value })}
+        />
+        <p className="text-[10px] text-muted-foreground">{t('settings.sources.arxiv.queryHint')}</p>
+      </div>
+    );
+  }
+
+  if (source.type === 'HackerNews') {
+    const feed = source.hnFeed ?? 'top';
+
+    return (
+      <div className="space-y-2 mt-2">
+        <select
+          className={selectClassName}
+          value={feed}
+          onChange={(e) => onChange({ hnFeed: e.target.value as HackerNewsFeed })}
+        >
+          {HN_FEEDS.map(f => (
+            <option key={f} value={f}>{t(`settings.sources.hn.feed.${f}`)}</option>
+          ))}
+        </select>
+        {feed === 'search' && (
+          <input
+            className={inputClassName}
+            placeholder={t('settings.sources.hn.query')}
+            value={source.hnQuery ?? ''}
+            onChange={(e) => onChange({ hnQuery: e.target.value })}
+          />
+        )}
+      </div>
+    );
+  }
+
+  if (source.type === 'GitHub') {
+    return (
+      <div className="space-y-2 mt-2">
+        <div className="flex items-center gap-2">
+          <select
+            className={selectClassName}
+            value={source.githubSince ?? 'daily'}
+            onChange={(e) => onChange({ githubSince: e.target.value as GitHubTrendingSince })}
+          >
+            {GITHUB_SINCE.map(s => (
+              <option key={s} value={s}>{t(`settings.sources.github.since.${s}`)}</option>
+            ))}
+          </select>
+          <select
+            className={selectClassName}
+            value={source.githubSpokenLanguage ?? ''}
+            onChange={(e) => onChange({ githubSpokenLanguage: e.target.value || undefined })}
+          >
+            {GITHUB_SPOKEN_LANGUAGES.map(code => (
+              <option key={code} value={code}>
+                {code ? code.toUpperCase() : t('settings.sources.github.anySpoken')}
+              </option>
+            ))}
+          </select>
+        </div>
+        <ListInput
+          value={source.githubLanguages}
+          placeholder={t('settings.sources.github.languages')}
+          onCommit={(values) => onChange({ githubLanguages: values })}
+        />
+      </div>
+    );
+  }
+
+  if (source.type === 'Reddit') {
+    const sort = source.redditSort ?? 'hot';
+
+    return (
+      <div className="space-y-2 mt-2">
+        <ListInput
+          value={source.subreddits}
+          placeholder={t('settings.sources.reddit.subreddits')}
+          onCommit={(values) => onChange({ subreddits: values.map(s => s.replace(/^\/?r\//i, '')) })}
+        />
+        <div className="flex items-center gap-2">
+          <select
+            className={selectClassName}
+            value={sort}
+            onChange={(e) => onChange({ redditSort: e.target.value as RedditSort })}
+          >
+            {REDDIT_SORTS.map(s => (
+              <option key={s} value={s}>{t(`settings.sources.reddit.sort.${s}`)}</option>
+            ))}
+          </select>
+          {sort === 'top' && (
+            <select
+              className={selectClassName}
+              value={source.redditTimeWindow ?? 'day'}
+              onChange={(e) => onChange({ redditTimeWindow: e.target.value as RedditTimeWindow })}
+            >
+              {REDDIT_TIME_WINDOWS.map(w => (
+                <option key={w} value={w}>{t(`settings.sources.reddit.window.${w}`)}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <ListInput
+          value={source.redditFlairs}
+          placeholder={t('settings.sources.reddit.flairs')}
+          onCommit={(values) => onChange({ redditFlairs: values })}
+        />
+      </div>
+    );
+  }
+
+  return null;
+}
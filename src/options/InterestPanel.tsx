@@ -0,0 +1,102 @@
+import { useEffect, useMemo } from 'react';
+import { Heart, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useInterestStore } from '@/stores/interestStore';
+import { getTopTerms } from '@/services/interestModel';
+import { InterestTermWeight } from '@/types/interest';
+import { useI18n } from '@/i18n';
+
+// 每类展示的特征数
+const TOP_TERMS_LIMIT = 15;
+
+// 特征显示名：tag:/source: 前缀转为本地化标签
+function TermChip({ term, tone }: { term: InterestTermWeight; tone: 'liked' | 'disliked' }) {
+  const { t } = useI18n();
+  const [prefix, ...rest] = term.term.split(':');
+  const label = rest.length > 0 && (prefix === 'tag' || prefix === 'source')
+    ? `${t(`settings.interest.prefix.${prefix}`)}: ${rest.join(':')}`
+    : term.term;
+
+  return (
+    <span
+      className={
+        tone === 'liked'
+          ? 'text-xs px-2 py-0.5 rounded-full border border-wechat/40 bg-wechat/10 text-wechat'
+          : 'text-xs px-2 py-0.5 rounded-full border border-red-500/30 bg-red-500/10 text-red-400'
+      }
+      title={`+${term.positive} / -${term.negative}`}
+    >
+      {label} <span className="opacity-60">{term.weight.toFixed(1)}</span>
+    </span>
+  );
+}
+
+/**
+ * 本地兴趣画像：查看学到的高权重特征，或清空重新学习
+ */
+export function InterestPanel() {
+  const { t } = useI18n();
+  const profile = useInterestStore((state) => state.profile);
+  const loadProfile = useInterestStore((state) => state.loadFromStorage);
+  const resetProfile = useInterestStore((state) => state.reset);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const { liked, disliked } = useMemo(() => getTopTerms(profile, TOP_TERMS_LIMIT), [profile]);
+
+  const handleReset = async () => {
+    if (!confirm(t('settings.interest.resetConfirm'))) return;
+    await resetProfile();
+  };
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-2">
+          <Heart className="w-5 h-5 text-wechat" />
+          <h2 className="text-lg font-semibold">{t('settings.interest.title')}</h2>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleReset}
+          disabled={profile.interactions === 0}
+          className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          {t('settings.interest.reset')}
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        {t('settings.interest.desc', { count: profile.interactions })}
+      </p>
+
+      {profile.interactions === 0 ? (
+        <div className="text-center py-8 text-muted-foreground text-sm border border-dashed border-border rounded-lg">
+          {t('settings.interest.empty')}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <h3 className="text-sm font-medium mb-2">{t('settings.interest.liked')}</h3>
+            <div className="flex flex-wrap gap-2">
+              {liked.length > 0
+                ? liked.map(term => <TermChip key={term.term} term={term} tone="liked" />)
+                : <span className="text-xs text-muted-foreground">-</span>}
+            </div>
+          </div>
+          <div>
+            <h3 className="text-sm font-medium mb-2">{t('settings.interest.disliked')}</h3>
+            <div className="flex flex-wrap gap-2">
+              {disliked.length > 0
+                ? disliked.map(term => <TermChip key={term.term} term={term} tone="disliked" />)
+                : <span className="text-xs text-muted-foreground">-</span>}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { 
   Settings, Database, Download, Upload, Palette, Key, RefreshCw, Save, Trash2, 
-  Sun, Moon, Plus, Edit2, GripVertical, X, Check, Globe, Pin 
+  Sun, Moon, Plus, Edit2, GripVertical, X, Check, Globe, Pin, Activity, Copy, Filter 
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,7 +10,7 @@ import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { 
   AppConfig, SourceConfig, defaultSources, 
-  getSourceIcon, SourceCategory, FetchTimeRange 
+  getSourceIcon, SourceCategory, FetchTimeRange, LLMProvider 
 } from '@/types/index.ts';
 import { getConfig, saveConfig, exportData, importData, clearAll } from '@/services/storage.ts';
 import { useToast } from '@/hooks/use-toast.ts';
@@ -19,6 +19,18 @@ import { useTheme } from '@/hooks/useTheme.ts';
 import { cn } from '@/lib/utils.ts';
 import { useI18n, LANGUAGE_OPTIONS, Locale } from '@/i18n';
 import { logger } from '@/utils/logger.ts';
+import { SourceHealthPanel } from './SourceHealthPanel.tsx';
+import { BuiltinSourceSettings } from './BuiltinSourceSettings.tsx';
+import { RulesPanel } from './RulesPanel.tsx';
+import { InterestPanel } from './InterestPanel.tsx';
+import { ModelField, ConnectionTest } from './ApiConnection.tsx';
+import { PromptTemplatesPanel } from './PromptTemplatesPanel.tsx';
+import { StorageUsagePanel } from './StorageUsagePanel.tsx';
+import { parseOPML, buildOPML, opmlFeedsToSources, OpmlImportEntry } from '@/utils/opml.ts';
+import { getAIUsage, AIUsage } from '@/services/aiService.ts';
+import { DEFAULT_CONTEXT_TOKENS } from '@/services/contentExtractor.ts';
+import { DEFAULT_ARCHIVE_RETENTION_DAYS } from '@/services/archiveService.ts';
+import { LLM_PROVIDERS, getProviderAdapter } from '@/services/llmProviders.ts';
 
 interface EditingSource {
   id: string;
@@ -31,6 +43,8 @@ function OptionsApp() {
   const [saving, setSaving] = useState(false);
   const [editingSource, setEditingSource] = useState<EditingSource | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
+  const [aiUsage, setAiUsage] = useState<AIUsage | null>(null);
+  const [opmlPreview, setOpmlPreview] = useState<{ entries: OpmlImportEntry[]; skipped: number } | null>(null);
   const [newSource, setNewSource] = useState<Partial<SourceConfig>>({
     type: 'RSS',
     name: '',
@@ -62,6 +76,7 @@ function OptionsApp() {
 
   useEffect(() => {
     loadConfig();
+    getAIUsage().then(setAiUsage).catch((error) => logger.error('Load AI usage error:', error));
   }, []);
 
   const loadConfig = async () => {
@@ -164,6 +179,28 @@ function OptionsApp() {
     setConfig({ ...config, sources: newSources });
   };
 
+  // 复制内置数据源，生成可独立配置的新实例
+  const handleDuplicateSource = (id: string) => {
+    if (!config) return;
+    const index = config.sources.findIndex(s => s.id === id);
+    if (index === -1) return;
+
+    const original = config.sources[index];
+    const copy: SourceConfig = {
+      ...original,
+      id: `${original.type.toLowerCase()}-${Date.now()}`,
+      name: `${original.name} ${t('settings.sources.copySuffix')}`,
+      isPinned: false,
+    };
+    const newSources = [...config.sources];
+    newSources.splice(index + 1, 0, copy);
+    setConfig({ ...config, sources: newSources });
+    toast({
+      title: t('settings.sources.added'),
+      description: t('settings.sources.addedDesc'),
+    });
+  };
+
   const handleAddSource = () => {
     if (!config || !newSource.name || !newSource.url) return;
     
@@ -261,6 +298,75 @@ function OptionsApp() {
     reader.readAsText(file);
   };
 
+  const handleOpmlExport = () => {
+    if (!config) return;
+    try {
+      const data = buildOPML(config.sources);
+      const blob = new Blob([data], { type: 'text/x-opml' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `infotrend-subscriptions-${Date.now()}.opml`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast({
+        title: t('settings.data.exportSuccess'),
+        description: t('settings.data.exportSuccessDesc', { format: 'OPML' }),
+      });
+    } catch (error) {
+      logger.error('OPML export error:', error);
+      toast({
+        title: t('settings.data.exportFailed'),
+        description: t('settings.data.exportFailedDesc'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleOpmlImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !config) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const feeds = parseOPML(e.target?.result as string);
+        const entries = opmlFeedsToSources(feeds, config.sources);
+        setOpmlPreview({ entries, skipped: feeds.length - entries.length });
+      } catch (error) {
+        logger.error('OPML import error:', error);
+        toast({
+          title: t('settings.data.importFailed'),
+          description: t('settings.data.opmlInvalid'),
+          variant: 'destructive',
+        });
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  // 预览中修改待导入数据源的分类
+  const handleOpmlCategoryChange = (id: string, category: SourceCategory) => {
+    if (!opmlPreview) return;
+    setOpmlPreview({
+      ...opmlPreview,
+      entries: opmlPreview.entries.map(entry =>
+        entry.source.id === id ? { ...entry, source: { ...entry.source, category } } : entry
+      ),
+    });
+  };
+
+  const handleConfirmOpmlImport = () => {
+    if (!config || !opmlPreview) return;
+    setConfig({ ...config, sources: [...config.sources, ...opmlPreview.entries.map(entry => entry.source)] });
+    toast({
+      title: t('settings.sources.added'),
+      description: t('settings.data.opmlAdded', { count: opmlPreview.entries.length }),
+    });
+    setOpmlPreview(null);
+  };
+
   const handleClearData = async () => {
     if (!confirm(t('settings.data.confirmClear'))) return;
 
@@ -332,6 +438,14 @@ function OptionsApp() {
               <Database className="w-4 h-4 mr-2" />
               {t('settings.tab.sources')}
             </TabsTrigger>
+            <TabsTrigger value="rules" className="data-[state=active]:bg-wechat/20 data-[state=active]:text-wechat">
+              <Filter className="w-4 h-4 mr-2" />
+              {t('settings.tab.rules')}
+            </TabsTrigger>
+            <TabsTrigger value="health" className="data-[state=active]:bg-wechat/20 data-[state=active]:text-wechat">
+              <Activity className="w-4 h-4 mr-2" />
+              {t('settings.tab.health')}
+            </TabsTrigger>
             <TabsTrigger value="api" className="data-[state=active]:bg-wechat/20 data-[state=active]:text-wechat">
               <Key className="w-4 h-4 mr-2" />
               {t('settings.tab.api')}
@@ -570,7 +684,11 @@ function OptionsApp() {
                         <div className="text-xl">{source.icon || getSourceIcon(source.type)}</div>
                         
                         <div className="flex-1 min-w-0">
-                           <h3 className="font-medium text-foreground truncate text-sm">{source.name}</h3>
+                           <input
+                             className="font-medium text-foreground text-sm bg-transparent w-full truncate focus:outline-none"
+                             value={source.name}
+                             onChange={(e) => handleUpdateSource(source.id, { name: e.target.value })}
+                           />
                            <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
                                 <select 
                                     className="bg-transparent border border-border rounded px-1 h-5 text-[10px]"
@@ -580,23 +698,50 @@ function OptionsApp() {
                                     {[5, 10, 15, 20, 30].map(n => <option key={n} value={n}>{n}</option>)}
                                 </select>
                                 <span>{t('settings.sources.items')}</span>
-                                {source.minScore !== undefined && (
+                                {(source.minScore !== undefined || source.type === 'Reddit') && (
                                   <>
                                     <span>·</span>
                                     <span>{t('settings.sources.minScore')}</span>
                                     <input 
                                       type="number" 
                                       className="bg-transparent border border-border rounded px-1 h-5 w-14 text-[10px]"
-                                      value={source.minScore}
+                                      value={source.minScore ?? 0}
                                       onChange={(e) => handleUpdateSource(source.id, { minScore: parseInt(e.target.value) || 0 })}
                                     />
                                   </>
                                 )}
                            </div>
                            <p className="text-[10px] text-muted-foreground truncate">{t(`source.desc.${source.id}`) !== `source.desc.${source.id}` ? t(`source.desc.${source.id}`) : ''}</p>
+                           <BuiltinSourceSettings
+                             source={source}
+                             onChange={(updates) => handleUpdateSource(source.id, updates)}
+                           />
                         </div>
                         
-                        <Switch checked={source.enabled} onCheckedChange={(checked) => handleSourceToggle(source.id, checked)} />
+                        <div className="flex flex-col items-end gap-1 self-start">
+                          <Switch checked={source.enabled} onCheckedChange={(checked) => handleSourceToggle(source.id, checked)} />
+                          <div className="flex">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDuplicateSource(source.id)}
+                              className="h-6 w-6 text-muted-foreground hover:bg-secondary"
+                              title={t('settings.sources.duplicate')}
+                            >
+                              <Copy className="w-3 h-3" />
+                            </Button>
+                            {!defaultSources.some(d => d.id === source.id) && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteSource(source.id)}
+                                className="h-6 w-6 text-red-400 hover:bg-red-500/10"
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
                       </div>
                     ))}
                  </div>
@@ -618,19 +763,68 @@ function OptionsApp() {
                   className="max-w-xs"
                 />
               </div>
+
+              <div className="mt-6">
+                <h3 className="font-medium mb-2">{t('settings.sources.archiveRetention')}</h3>
+                <p className="text-sm text-muted-foreground mb-2">
+                  {t('settings.sources.archiveRetentionDesc')}
+                </p>
+                <Input
+                  type="number"
+                  min={0}
+                  max={3650}
+                  value={config.archiveRetentionDays ?? DEFAULT_ARCHIVE_RETENTION_DAYS}
+                  onChange={(e) =>
+                    setConfig({ ...config, archiveRetentionDays: Math.max(0, parseInt(e.target.value) || 0) })
+                  }
+                  className="max-w-xs"
+                />
+              </div>
             </div>
           </TabsContent>
 
+          {/* Rules Tab */}
+          <TabsContent value="rules" className="space-y-6">
+            <RulesPanel
+              rules={config.rules ?? []}
+              onChange={(rules) => setConfig({ ...config, rules })}
+            />
+            <InterestPanel />
+          </TabsContent>
+
+          {/* Health Tab */}
+          <TabsContent value="health">
+            <SourceHealthPanel sources={config.sources} />
+          </TabsContent>
+
           {/* API Tab */}
-          <TabsContent value="api">
+          <TabsContent value="api" className="space-y-6">
             <div className="glass-card p-6">
               <h2 className="text-lg font-semibold mb-4">{t('settings.api.title')}</h2>
               <div className="space-y-6">
+                <div>
+                  <h3 className="font-medium mb-2">{t('settings.api.provider')}</h3>
+                  <select
+                    value={config.apiProvider ?? 'openai'}
+                    onChange={(e) => setConfig({ ...config, apiProvider: e.target.value as LLMProvider })}
+                    className="w-full max-w-lg bg-secondary border border-border text-foreground rounded-md px-3 py-2"
+                  >
+                    {LLM_PROVIDERS.map(provider => (
+                      <option key={provider} value={provider}>{t(`settings.api.provider.${provider}`)}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {t('settings.api.providerDesc')}
+                  </p>
+                </div>
+
                 <div>
                   <h3 className="font-medium mb-2">{t('settings.api.baseUrl')}</h3>
                   <Input
                     type="text"
-                    placeholder={t('settings.api.baseUrlPlaceholder')}
+                    placeholder={(config.apiProvider ?? 'openai') === 'openai'
+                      ? t('settings.api.baseUrlPlaceholder')
+                      : getProviderAdapter(config.apiProvider).defaultBaseUrl}
                     value={config.apiBaseUrl || ''}
                     onChange={(e) => setConfig({ ...config, apiBaseUrl: e.target.value })}
                     className="max-w-lg"
@@ -656,24 +850,102 @@ function OptionsApp() {
 
                 <div>
                   <h3 className="font-medium mb-2">{t('settings.api.model')}</h3>
+                  <ModelField
+                    config={config}
+                    onChange={(model) => setConfig({ ...config, apiModel: model })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {t('settings.api.modelDesc')}
+                  </p>
+                </div>
+
+                <div>
+                  <h3 className="font-medium mb-2">{t('settings.api.embeddingModel')}</h3>
                   <Input
                     type="text"
-                    placeholder={t('settings.api.modelPlaceholder')}
-                    value={config.apiModel || ''}
-                    onChange={(e) => setConfig({ ...config, apiModel: e.target.value })}
+                    placeholder={getProviderAdapter(config.apiProvider).defaultEmbeddingModel || t('settings.api.embeddingUnsupported')}
+                    value={config.embeddingModel || ''}
+                    onChange={(e) => setConfig({ ...config, embeddingModel: e.target.value })}
+                    disabled={!getProviderAdapter(config.apiProvider).buildEmbeddingRequest}
                     className="max-w-lg"
                   />
                   <p className="text-xs text-muted-foreground mt-2">
-                    {t('settings.api.modelDesc')}
+                    {t('settings.api.embeddingModelDesc')}
+                  </p>
+                </div>
+
+                <div>
+                  <h3 className="font-medium mb-2">{t('settings.api.connection')}</h3>
+                  <ConnectionTest config={config} />
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {t('settings.api.connectionDesc')}
+                  </p>
+                </div>
+
+                <div>
+                  <h3 className="font-medium mb-2">{t('settings.api.contextTokens')}</h3>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={500}
+                    value={config.summaryContextTokens ?? DEFAULT_CONTEXT_TOKENS}
+                    onChange={(e) => setConfig({ ...config, summaryContextTokens: parseInt(e.target.value) || 0 })}
+                    className="max-w-[160px]"
+                  />
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {t('settings.api.contextTokensDesc')}
+                  </p>
+                </div>
+
+                <div>
+                  <h3 className="font-medium mb-2">{t('settings.api.batch')}</h3>
+                  <div className="grid grid-cols-3 gap-4 max-w-lg">
+                    <div>
+                      <label className="text-xs text-muted-foreground">{t('settings.api.concurrency')}</label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={5}
+                        value={config.summaryConcurrency ?? 2}
+                        onChange={(e) => setConfig({ ...config, summaryConcurrency: parseInt(e.target.value) || 1 })}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-muted-foreground">{t('settings.api.requestBudget')}</label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={config.dailyRequestBudget ?? 0}
+                        onChange={(e) => setConfig({ ...config, dailyRequestBudget: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-muted-foreground">{t('settings.api.tokenBudget')}</label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={1000}
+                        value={config.dailyTokenBudget ?? 0}
+                        onChange={(e) => setConfig({ ...config, dailyTokenBudget: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {t('settings.api.budgetDesc')}
+                    {aiUsage && ` ${t('settings.api.usageToday', { requests: aiUsage.requests, tokens: aiUsage.tokens })}`}
                   </p>
                 </div>
 
                 <div className="p-4 rounded-lg bg-wechat/5 border border-wechat/20">
                   <h4 className="font-medium text-wechat mb-2">💡 {t('settings.api.examples')}</h4>
                   <ul className="text-sm text-muted-foreground space-y-2">
+                    <li className="flex flex-col gap-1">
+                      <span className="font-medium">Anthropic:</span>
+                      <code className="text-xs bg-secondary px-2 py-1 rounded">Provider: Anthropic | Model: claude-3-5-haiku-latest</code>
+                    </li>
                     <li className="flex flex-col gap-1">
                       <span className="font-medium">Google Gemini:</span>
-                      <code className="text-xs bg-secondary px-2 py-1 rounded">Base URL: https://generativelanguage.googleapis.com/v1beta/openai | Model: gemini-2.0-flash</code>
+                      <code className="text-xs bg-secondary px-2 py-1 rounded">Provider: Gemini | Model: gemini-2.0-flash</code>
                     </li>
                     <li className="flex flex-col gap-1">
                       <span className="font-medium">OpenAI:</span>
@@ -689,7 +961,8 @@ function OptionsApp() {
                     </li>
                     <li className="flex flex-col gap-1">
                       <span className="font-medium">本地 Ollama:</span>
-                      <code className="text-xs bg-secondary px-2 py-1 rounded">Base URL: http://localhost:11434/v1 | Model: llama3</code>
+                      <code className="text-xs bg-secondary px-2 py-1 rounded">Provider: Ollama | Base URL: http://localhost:11434 | Model: llama3</code>
+                      <span className="text-xs">{t('settings.api.ollamaOriginsHint')}</span>
                     </li>
                   </ul>
                 </div>
@@ -704,6 +977,10 @@ function OptionsApp() {
                 </div>
               </div>
             </div>
+            <PromptTemplatesPanel
+              templates={config.promptTemplates}
+              onChange={(promptTemplates) => setConfig({ ...config, promptTemplates })}
+            />
           </TabsContent>
 
           {/* Data Tab */}
@@ -764,6 +1041,107 @@ function OptionsApp() {
 
                 <Separator />
 
+                {/* OPML */}
+                <div>
+                  <h3 className="font-medium mb-3">{t('settings.data.opml')}</h3>
+                  <div className="flex gap-3">
+                    <Button
+                      onClick={handleOpmlExport}
+                      variant="outline"
+                      className="border-border hover:border-wechat/50"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      {t('settings.data.exportOpml')}
+                    </Button>
+                    <label className="cursor-pointer">
+                      <Input
+                        type="file"
+                        accept=".opml,.xml"
+                        onChange={handleOpmlImport}
+                        className="hidden"
+                      />
+                      <Button
+                        variant="outline"
+                        className="border-border hover:border-wechat/50"
+                        asChild
+                      >
+                        <span>
+                          <Upload className="w-4 h-4 mr-2" />
+                          {t('settings.data.importOpml')}
+                        </span>
+                      </Button>
+                    </label>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {t('settings.data.opmlDesc')}
+                  </p>
+
+                  {opmlPreview && (
+                    <div className="mt-4 p-4 rounded-lg bg-secondary/50 border border-border">
+                      <p className="text-sm font-medium mb-1">
+                        {t('settings.data.opmlPreview', { count: opmlPreview.entries.length })}
+                      </p>
+                      {opmlPreview.skipped > 0 && (
+                        <p className="text-xs text-muted-foreground mb-2">
+                          {t('settings.data.opmlSkipped', { count: opmlPreview.skipped })}
+                        </p>
+                      )}
+                      <div className="max-h-60 overflow-y-auto space-y-1 my-3">
+                        {opmlPreview.entries.map(({ source, originalCategory }) => (
+                          <div key={source.id} className="flex items-center gap-2 text-xs">
+                            <span className="font-medium truncate max-w-[200px]">{source.name}</span>
+                            <span className="text-muted-foreground truncate flex-1">{source.url}</span>
+                            {originalCategory && (
+                              <span
+                                className="text-amber-500 truncate max-w-[120px]"
+                                title={t('settings.data.opmlCategoryUnknown', { category: originalCategory })}
+                              >
+                                {originalCategory} →
+                              </span>
+                            )}
+                            <select
+                              value={source.category}
+                              onChange={(e) => handleOpmlCategoryChange(source.id, e.target.value as SourceCategory)}
+                              className="bg-secondary border border-border text-foreground rounded px-1 h-6"
+                            >
+                              {CATEGORY_OPTIONS.map(opt => (
+                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={handleConfirmOpmlImport}
+                          disabled={opmlPreview.entries.length === 0}
+                          className="bg-wechat hover:bg-wechat/90"
+                        >
+                          <Check className="w-4 h-4 mr-1" />
+                          {t('settings.data.opmlConfirm')}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setOpmlPreview(null)}
+                          className="border-border"
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          {t('common.cancel')}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <Separator />
+
+                {/* Storage Usage */}
+                <StorageUsagePanel />
+
+                <Separator />
+
                 {/* Clear Data */}
                 <div>
                   <h3 className="font-medium mb-3 text-red-400">{t('settings.data.danger')}</h3>
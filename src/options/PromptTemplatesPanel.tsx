@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { MessageSquareText, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PromptTemplateKind, PromptTemplates, SourceType } from '@/types/index.ts';
+import {
+  PROMPT_TEMPLATE_KINDS, PROMPT_VARIABLES, DEFAULT_PROMPT_TEMPLATES, findUnknownVariables,
+} from '@/services/promptTemplates.ts';
+import { useI18n } from '@/i18n';
+
+interface PromptTemplatesPanelProps {
+  templates?: PromptTemplates;
+  onChange: (templates: PromptTemplates) => void;
+}
+
+// 可单独覆盖摘要模板的来源类型
+const OVERRIDE_SOURCE_TYPES: SourceType[] = [
+  'GitHub', 'HackerNews', 'ArXiv', 'DevTo', 'Reddit', 'ProductHunt', 'EchoJS', 'RSS', 'Custom',
+];
+
+const selectClassName = 'h-8 bg-secondary border border-border text-foreground rounded-md px-2 text-sm';
+
+/**
+ * Prompt 模板编辑器：摘要 / 标签 / 推荐，摘要可按来源类型覆盖
+ */
+export function PromptTemplatesPanel({ templates = {}, onChange }: PromptTemplatesPanelProps) {
+  const { t } = useI18n();
+  const [kind, setKind] = useState<PromptTemplateKind>('summary');
+  // 为空表示编辑该类的通用模板
+  const [sourceType, setSourceType] = useState<SourceType | ''>('');
+
+  const isOverride = kind === 'summary' && sourceType !== '';
+  const custom = isOverride ? templates.summaryOverrides?.[sourceType as SourceType] : templates[kind];
+  // 未覆盖的来源类型沿用通用摘要模板
+  const fallback = isOverride ? (templates.summary || DEFAULT_PROMPT_TEMPLATES.summary) : DEFAULT_PROMPT_TEMPLATES[kind];
+  const value = custom ?? fallback;
+  const unknown = findUnknownVariables(kind, value);
+
+  // 与回退模板相同或清空时视为未自定义
+  const update = (next: string | undefined) => {
+    const stored = next && next !== fallback ? next : undefined;
+    if (isOverride) {
+      const summaryOverrides = { ...templates.summaryOverrides, [sourceType]: stored };
+      if (!stored) delete summaryOverrides[sourceType as SourceType];
+      onChange({ ...templates, summaryOverrides });
+    } else {
+      onChange({ ...templates, [kind]: stored });
+    }
+  };
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <MessageSquareText className="w-5 h-5 text-wechat" />
+        <h2 className="text-lg font-semibold">{t('settings.prompts.title')}</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">{t('settings.prompts.description')}</p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as PromptTemplateKind)}
+          className={selectClassName}
+        >
+          {PROMPT_TEMPLATE_KINDS.map(k => (
+            <option key={k} value={k}>{t(`settings.prompts.kind.${k}`)}</option>
+          ))}
+        </select>
+        {kind === 'summary' && (
+          <select
+            value={sourceType}
+            onChange={(e) => setSourceType(e.target.value as SourceType | '')}
+            className={selectClassName}
+          >
+            <option value="">{t('settings.prompts.allSources')}</option>
+            {OVERRIDE_SOURCE_TYPES.map(type => (
+              <option key={type} value={type}>
+                {type}{templates.summaryOverrides?.[type] ? ' *' : ''}
+              </option>
+            ))}
+          </select>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {custom !== undefined ? t('settings.prompts.customized') : t('settings.prompts.usingDefault')}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          disabled={custom === undefined}
+          onClick={() => update(undefined)}
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          {isOverride ? t('settings.prompts.removeOverride') : t('settings.prompts.reset')}
+        </Button>
+      </div>
+
+      <textarea
+        value={value}
+        onChange={(e) => update(e.target.value)}
+        rows={14}
+        spellCheck={false}
+        className="w-full rounded-md border border-border bg-secondary text-foreground px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-wechat/40"
+      />
+
+      <div className="flex flex-wrap items-center gap-1 mt-2">
+        <span className="text-xs text-muted-foreground mr-1">{t('settings.prompts.variables')}</span>
+        {PROMPT_VARIABLES[kind].map(name => (
+          <code key={name} className="text-xs bg-secondary px-1.5 py-0.5 rounded">{`{${name}}`}</code>
+        ))}
+      </div>
+      {unknown.length > 0 && (
+        <p className="text-xs text-red-400 mt-2">
+          {t('settings.prompts.unknownVariables', { variables: unknown.map(name => `{${name}}`).join(', ') })}
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground mt-2">{t('settings.prompts.hint')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Plus, Trash2, Filter } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { FeedItem, FeedRule, RuleAction, RuleField, RuleMatchType } from '@/types/index.ts';
+import { getFeeds } from '@/services/storage.ts';
+import { matchRule, validateRulePattern } from '@/services/rulesService.ts';
+import { cn } from '@/lib/utils.ts';
+import { useI18n } from '@/i18n';
+import { logger } from '@/utils/logger.ts';
+
+interface RulesPanelProps {
+  rules: FeedRule[];
+  onChange: (rules: FeedRule[]) => void;
+}
+
+const RULE_FIELDS: RuleField[] = ['any', 'title', 'summary', 'author', 'source', 'tags'];
+const RULE_MATCH_TYPES: RuleMatchType[] = ['text', 'regex'];
+const RULE_ACTIONS: RuleAction[] = ['hide', 'highlight', 'favorite', 'boost'];
+
+// 预览中最多展示的命中条目数
+const PREVIEW_LIMIT = 5;
+
+const selectClassName = 'h-8 bg-secondary border border-border text-foreground rounded-md px-2 text-sm';
+
+/**
+ * 关键词规则编辑器，基于当前已抓取的 feed 实时预览命中结果
+ */
+export function RulesPanel({ rules, onChange }: RulesPanelProps) {
+  const { t } = useI18n();
+  const [feeds, setFeeds] = useState<FeedItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getFeeds().then(setFeeds).catch((error) => {
+      logger.error('Failed to load feeds for rule preview:', error);
+    });
+  }, []);
+
+  // 每条规则命中的条目
+  const matchesByRule = useMemo(() => {
+    const result = new Map<string, FeedItem[]>();
+    rules.forEach(rule => {
+      result.set(rule.id, feeds.filter(feed => matchRule(rule, feed)));
+    });
+    return result;
+  }, [rules, feeds]);
+
+  const updateRule = (id: string, updates: Partial<FeedRule>) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...updates } : rule)));
+  };
+
+  const addRule = () => {
+    const rule: FeedRule = {
+      id: `rule-${Date.now()}`,
+      enabled: true,
+      field: 'title',
+      matchType: 'text',
+      pattern: '',
+      action: 'hide',
+    };
+    onChange([...rules, rule]);
+    setSelectedId(rule.id);
+  };
+
+  const deleteRule = (id: string) => {
+    onChange(rules.filter(rule => rule.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-2">
+          <Filter className="w-5 h-5 text-wechat" />
+          <h2 className="text-lg font-semibold">{t('settings.rules.title')}</h2>
+        </div>
+        <Button size="sm" onClick={addRule} className="bg-wechat hover:bg-wechat/90">
+          <Plus className="w-4 h-4 mr-2" />
+          {t('settings.rules.add')}
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        {t('settings.rules.desc', { count: feeds.length })}
+      </p>
+
+      {rules.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground text-sm border border-dashed border-border rounded-lg">
+          {t('settings.rules.empty')}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {rules.map(rule => {
+            const matches = matchesByRule.get(rule.id) ?? [];
+            const patternError = validateRulePattern(rule);
+            const isSelected = selectedId === rule.id;
+
+            return (
+              <div
+                key={rule.id}
+                onClick={() => setSelectedId(rule.id)}
+                className={cn(
+                  'p-4 rounded-lg border transition-colors',
+                  rule.enabled ? 'bg-secondary/50 border-border' : 'bg-secondary/20 border-border/50 opacity-60',
+                  isSelected && 'border-wechat/50'
+                )}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    className={selectClassName}
+                    value={rule.field}
+                    onChange={(e) => updateRule(rule.id, { field: e.target.value as RuleField })}
+                  >
+                    {RULE_FIELDS.map(field => (
+                      <option key={field} value={field}>{t(`settings.rules.field.${field}`)}</option>
+                    ))}
+                  </select>
+                  <select
+                    className={selectClassName}
+                    value={rule.matchType}
+                    onChange={(e) => updateRule(rule.id, { matchType: e.target.value as RuleMatchType })}
+                  >
+                    {RULE_MATCH_TYPES.map(type => (
+                      <option key={type} value={type}>{t(`settings.rules.match.${type}`)}</option>
+                    ))}
+                  </select>
+                  <Input
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                    placeholder={rule.matchType === 'regex' ? 'crypto|web3' : t('settings.rules.patternPlaceholder')}
+                    className={cn('h-8 flex-1 min-w-[160px]', patternError && 'border-red-500/50')}
+                  />
+                  <select
+                    className={selectClassName}
+                    value={rule.action}
+                    onChange={(e) => updateRule(rule.id, { action: e.target.value as RuleAction })}
+                  >
+                    {RULE_ACTIONS.map(action => (
+                      <option key={action} value={action}>{t(`settings.rules.action.${action}`)}</option>
+                    ))}
+                  </select>
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(checked) => updateRule(rule.id, { enabled: checked })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteRule(rule.id);
+                    }}
+                    className="h-8 w-8 text-red-400 hover:bg-red-500/10"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <div className="flex items-center gap-3 mt-2 text-xs text-muted-foreground">
+                  <label className="flex items-center gap-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!rule.caseSensitive}
+                      onChange={(e) => updateRule(rule.id, { caseSensitive: e.target.checked })}
+                    />
+                    {t('settings.rules.caseSensitive')}
+                  </label>
+                  {patternError ? (
+                    <span className="text-red-400">{t('settings.rules.invalidRegex')}: {patternError}</span>
+                  ) : (
+                    <span>{t('settings.rules.matchCount', { count: matches.length })}</span>
+                  )}
+                </div>
+
+                {/* Live preview */}
+                {isSelected && matches.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs border-t border-border pt-2">
+                    {matches.slice(0, PREVIEW_LIMIT).map(feed => (
+                      <li key={feed.id} className="truncate">
+                        <span className="text-muted-foreground">[{feed.sourceName || feed.source}]</span> {feed.title}
+                      </li>
+                    ))}
+                    {matches.length > PREVIEW_LIMIT && (
+                      <li className="text-muted-foreground">
+                        {t('settings.rules.more', { count: matches.length - PREVIEW_LIMIT })}
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Activity, Loader2, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SourceConfig, getSourceIcon } from '@/types/index.ts';
+import { getSourceHealth, SourceHealth } from '@/services/storage.ts';
+import { testSourceFetch } from '@/services/dataFetcher.ts';
+import { cn } from '@/lib/utils.ts';
+import { useI18n } from '@/i18n';
+import { logger } from '@/utils/logger.ts';
+
+interface SourceHealthPanelProps {
+  sources: SourceConfig[];
+}
+
+const STATUS_STYLES: Record<SourceHealth['status'], string> = {
+  ok: 'bg-green-500/10 text-green-500',
+  not_modified: 'bg-blue-500/10 text-blue-500',
+  error: 'bg-red-500/10 text-red-400',
+};
+
+/**
+ * 数据源健康面板：展示每个数据源最近一次抓取结果，并支持立即测试抓取
+ */
+export function SourceHealthPanel({ sources }: SourceHealthPanelProps) {
+  const { t, actualLocale } = useI18n();
+  const [health, setHealth] = useState<Record<string, SourceHealth>>({});
+  const [testing, setTesting] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    getSourceHealth().then(setHealth).catch((error) => {
+      logger.error('Failed to load source health:', error);
+    });
+  }, []);
+
+  const formatTimestamp = (timestamp?: number) =>
+    timestamp ? new Date(timestamp).toLocaleString(actualLocale) : '—';
+
+  const handleTest = async (source: SourceConfig) => {
+    setTesting(prev => new Set(prev).add(source.id));
+    try {
+      await testSourceFetch(source);
+      setHealth(await getSourceHealth());
+    } catch (error) {
+      logger.error(`Test fetch failed for ${source.name}:`, error);
+    } finally {
+      setTesting(prev => {
+        const next = new Set(prev);
+        next.delete(source.id);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Activity className="w-5 h-5 text-wechat" />
+        <h2 className="text-lg font-semibold">{t('settings.health.title')}</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">{t('settings.health.desc')}</p>
+
+      <div className="space-y-3">
+        {sources.map((source) => {
+          const entry = health[source.id];
+          const isTesting = testing.has(source.id);
+
+          return (
+            <div
+              key={source.id}
+              className={cn(
+                'p-4 rounded-lg border',
+                source.enabled ? 'bg-secondary/50 border-border' : 'bg-secondary/20 border-border/50 opacity-60'
+              )}
+            >
+              <div className="flex items-center gap-3">
+                <span className="text-xl">{source.icon || getSourceIcon(source.type)}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium truncate">{source.name}</h3>
+                    <span
+                      className={cn(
+                        'text-[10px] px-1.5 py-0.5 rounded-full font-medium',
+                        entry ? STATUS_STYLES[entry.status] : 'bg-secondary text-muted-foreground'
+                      )}
+                    >
+                      {t(`settings.health.status.${entry?.status ?? 'unknown'}`)}
+                    </span>
+                  </div>
+                  {entry && (
+                    <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground mt-1">
+                      <span>{t('settings.health.lastSuccess')}: {formatTimestamp(entry.lastSuccess)}</span>
+                      <span>{t('settings.health.httpStatus')}: {entry.httpStatus ?? '—'}</span>
+                      <span>{t('settings.health.items')}: {entry.itemCount}</span>
+                      <span>{t('settings.health.duration')}: {entry.durationMs} ms</span>
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleTest(source)}
+                  disabled={isTesting}
+                  className="border-border hover:border-wechat/50"
+                >
+                  {isTesting
+                    ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    : <Play className="w-4 h-4 mr-1" />}
+                  {t('settings.health.testNow')}
+                </Button>
+              </div>
+              {entry?.lastError && (
+                <p className="text-xs text-red-400 mt-2 break-all">
+                  {t('settings.health.lastError')} ({formatTimestamp(entry.lastErrorAt)}): {entry.lastError}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react';
+import { HardDrive, Loader2, RefreshCw, Eraser } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  getStorageUsage, runStorageMaintenance, StorageUsage, StoreUsage, MaintenanceResult,
+} from '@/services/idbStorage.ts';
+import { cn } from '@/lib/utils.ts';
+import { useI18n } from '@/i18n';
+import { logger } from '@/utils/logger.ts';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// 单个存储的用量条，有上限时显示占比
+function UsageRow({ label, usage }: { label: string; usage: StoreUsage }) {
+  const { t } = useI18n();
+  const ratio = usage.quota ? Math.min(usage.bytes / usage.quota, 1) : 0;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm mb-1">
+        <span>{label}</span>
+        <span className="text-xs text-muted-foreground">
+          {t('settings.storage.records', { count: usage.count })} · {formatBytes(usage.bytes)}
+          {usage.quota ? ` / ${formatBytes(usage.quota)}` : ''}
+        </span>
+      </div>
+      {usage.quota !== undefined && (
+        <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
+          <div
+            className={cn('h-full rounded-full', ratio > 0.9 ? 'bg-red-500' : ratio > 0.7 ? 'bg-yellow-500' : 'bg-wechat')}
+            style={{ width: `${Math.max(ratio * 100, 1)}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 存储用量：chrome.storage 与 IndexedDB 各存储的占用，支持手动清理过期和超额缓存
+ */
+export function StorageUsagePanel() {
+  const { t } = useI18n();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [cleaning, setCleaning] = useState(false);
+  const [cleaned, setCleaned] = useState<MaintenanceResult | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setLoading(true);
+    try {
+      setUsage(await getStorageUsage());
+    } catch (error) {
+      logger.error('[StorageUsage] Failed to load usage:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const handleCleanup = async () => {
+    setCleaning(true);
+    setCleaned(null);
+    try {
+      setCleaned(await runStorageMaintenance());
+      await loadUsage();
+    } catch (error) {
+      logger.error('[StorageUsage] Cleanup failed:', error);
+    } finally {
+      setCleaning(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-1">
+        <HardDrive className="w-4 h-4 text-wechat" />
+        <h3 className="font-medium">{t('settings.storage.title')}</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 ml-auto text-muted-foreground hover:text-foreground"
+          onClick={loadUsage}
+          disabled={loading}
+          title={t('settings.storage.refresh')}
+        >
+          <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">{t('settings.storage.description')}</p>
+
+      {usage ? (
+        <div className="space-y-3 max-w-lg">
+          <UsageRow label={t('settings.storage.chrome')} usage={usage.chromeStorage} />
+          <UsageRow label={t('settings.storage.items')} usage={usage.items} />
+          <UsageRow label={t('settings.storage.caches')} usage={usage.caches} />
+          <UsageRow label={t('settings.storage.ai')} usage={usage.ai} />
+        </div>
+      ) : (
+        loading && <Loader2 className="w-4 h-4 animate-spin text-wechat" />
+      )}
+
+      <div className="flex items-center gap-3 mt-4">
+        <Button
+          onClick={handleCleanup}
+          disabled={cleaning}
+          variant="outline"
+          className="border-border hover:border-wechat/50"
+        >
+          {cleaning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Eraser className="w-4 h-4 mr-2" />}
+          {t('settings.storage.cleanup')}
+        </Button>
+        {cleaned && (
+          <span className="text-xs text-muted-foreground">
+            {t('settings.storage.cleaned', { expired: cleaned.expired, evicted: cleaned.evicted })}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">{t('settings.storage.hint')}</p>
+    </div>
+  );
+}
@@ -2,32 +2,73 @@
  * AI Service - 统一的 AI 服务模块
  * 
  * 包含：
- * - LLM 配置管理
+ * - LLM 配置管理（多厂商适配见 llmProviders.ts）
  * - AI 摘要生成
  * - AI 标签生成
+ * - 每日简报生成
+ * - 连接测试与模型发现
+ * - 针对单条内容或整个信息流的对话
  */
 
-import { FeedItem } from '../types/index.ts';
+import { AppConfig, FeedItem, PromptTemplates } from '../types/index.ts';
 import { AITagResponse } from '../types/favorite';
+import { Digest, DigestGroup } from '../types/digest';
+import { ChatMessage, ChatReference, ChatScope } from '../types/chat';
 import { getCache, saveCache, getConfig } from './storage.ts';
+import { getTodayDateString } from './freshnessService.ts';
+import { getArticleText, DEFAULT_CONTEXT_TOKENS } from './contentExtractor.ts';
 import { getStoredLocale } from '../i18n/storage.ts';
 import { ActualLocale } from '../i18n/types.ts';
 import { detectBrowserLocale } from '../i18n/detector.ts';
+import { LLMConfig, LLMMessage, getProviderAdapter } from './llmProviders.ts';
+import { resolvePromptTemplate, renderPromptTemplate } from './promptTemplates.ts';
+import { tokenizeTitle } from '../utils/tokenize.ts';
 import { logger } from '../utils/logger.ts';
 
 // ============================================================================
 // 类型定义
 // ============================================================================
 
-interface LLMConfig {
-  apiKey: string;
-  model: string;
-  baseUrl: string;
-}
-
 // 流式响应回调类型
 type StreamCallback = (chunk: string) => void;
 
+// 当日 AI 用量
+export interface AIUsage {
+  date: string; // YYYY-MM-DD
+  requests: number;
+  tokens: number;
+}
+
+// 连接测试 / 模型发现失败的原因
+export type ConnectionErrorKind =
+  | 'not_configured'   // 必填字段缺失
+  | 'auth'             // 401/403，API Key 无效或无权限
+  | 'not_found'        // 404，Base URL 或模型名错误
+  | 'rate_limit'       // 429，限流或额度用尽
+  | 'server'           // 5xx
+  | 'network'          // 无法连接到服务器
+  | 'timeout'
+  | 'invalid_response' // 返回的不是 API 响应（如网页）
+  | 'ollama_origin'    // Ollama 返回 403：未在 OLLAMA_ORIGINS 中允许扩展来源
+  | 'request_failed';  // 其他 HTTP 错误
+
+// 连接测试结果
+export interface ConnectionTestResult {
+  ok: boolean;
+  latencyMs: number;
+  errorKind?: ConnectionErrorKind;
+  status?: number;  // HTTP 状态码
+  detail?: string;  // 接口返回的错误信息
+}
+
+// 模型发现结果
+export interface ModelListResult {
+  models: string[];
+  errorKind?: ConnectionErrorKind;
+  status?: number;
+  detail?: string;
+}
+
 // ============================================================================
 // 错误类
 // ============================================================================
@@ -42,6 +83,26 @@ export class APINotConfiguredError extends Error {
   }
 }
 
+/**
+ * 超出每日预算错误
+ */
+export class BudgetExceededError extends Error {
+  constructor() {
+    super('已达到今日 AI 用量上限，可在设置页面调整');
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * 服务商不支持向量接口错误
+ */
+export class EmbeddingsNotSupportedError extends Error {
+  constructor() {
+    super('当前 AI 服务商不支持向量接口，无法使用语义搜索');
+    this.name = 'EmbeddingsNotSupportedError';
+  }
+}
+
 // ============================================================================
 // 常量配置
 // ============================================================================
@@ -53,13 +114,19 @@ const LANGUAGE_NAMES: Record<ActualLocale, string> = {
 };
 
 // 摘要缓存配置
-const SUMMARY_CACHE_PREFIX = 'ai_summary_';
+export const SUMMARY_CACHE_PREFIX = 'ai_summary_';
 const SUMMARY_CACHE_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 天
 
 // 标签缓存配置
 const TAGS_CACHE_PREFIX = 'ai_tags_';
 const TAGS_CACHE_DURATION = 30 * 24 * 60 * 60 * 1000; // 30 天
 
+// 用量统计存储键
+const AI_USAGE_KEY = 'ai_usage';
+
+// 连接测试 / 模型发现的超时时间
+const CONNECTION_TIMEOUT_MS = 15000;
+
 // 预定义分类列表
 const PREDEFINED_CATEGORIES = [
   'AI', 'Development', 'News', 'Research', 'Product', 'Tutorial', 'Other',
@@ -87,37 +154,41 @@ async function getUserLanguage(): Promise<string> {
 }
 
 /**
- * 获取 LLM 配置
- * 从用户配置中读取 baseUrl、apiKey、model
+ * 将用户配置转换为 LLM 配置，缺少必要字段时返回 null
+ * OpenAI 兼容接口必须填写 baseUrl，其他厂商留空时使用官方默认地址
+ * 获取模型列表时还没有选择模型，可传 requireModel = false
  */
-async function getLLMConfig(): Promise<LLMConfig | null> {
-  const config = await getConfig();
+function toLLMConfig(config: AppConfig, requireModel: boolean = true): LLMConfig | null {
+  const provider = config.apiProvider ?? 'openai';
+  const adapter = getProviderAdapter(provider);
   
   // 检查是否配置了必要的字段
-  if (!config.apiBaseUrl || !config.apiKey || !config.apiModel) {
+  if ((requireModel && !config.apiModel) || (adapter.requiresApiKey && !config.apiKey)) {
     return null;
   }
-  
-  // 规范化 baseUrl
-  let baseUrl = config.apiBaseUrl.trim();
-  
-  // 移除末尾斜杠
-  while (baseUrl.endsWith('/')) {
-    baseUrl = baseUrl.slice(0, -1);
-  }
-  
-  // 如果 baseUrl 已经以 /chat/completions 结尾，不再添加
-  if (!baseUrl.endsWith('/chat/completions')) {
-    baseUrl = `${baseUrl}/chat/completions`;
+  if (provider === 'openai' && !config.apiBaseUrl) {
+    return null;
   }
   
   return {
-    apiKey: config.apiKey,
-    model: config.apiModel,
-    baseUrl,
+    provider,
+    apiKey: config.apiKey || '',
+    model: config.apiModel || '',
+    embeddingModel: config.embeddingModel?.trim() || adapter.defaultEmbeddingModel || '',
+    baseUrl: config.apiBaseUrl?.trim() || '',
+    contextTokens: config.summaryContextTokens ?? DEFAULT_CONTEXT_TOKENS,
+    promptTemplates: config.promptTemplates,
   };
 }
 
+/**
+ * 获取 LLM 配置
+ * 从用户配置中读取 provider、baseUrl、apiKey、model
+ */
+async function getLLMConfig(): Promise<LLMConfig | null> {
+  return toLLMConfig(await getConfig());
+}
+
 /**
  * 延迟函数
  */
@@ -139,6 +210,82 @@ function isNetworkError(error: Error): boolean {
   return networkErrorMessages.some(msg => error.message.includes(msg));
 }
 
+/**
+ * 读取错误响应中的错误信息，无法解析时返回 HTTP 状态码
+ */
+async function readErrorDetail(response: Response): Promise<string> {
+  try {
+    const errorData = await response.json();
+    if (errorData.error?.message) {
+      return errorData.error.message;
+    }
+    if (typeof errorData.error === 'string') {
+      return errorData.error;
+    }
+  } catch {
+    // 无法解析 JSON，使用状态码
+  }
+  return `HTTP ${response.status}`;
+}
+
+// ============================================================================
+// 用量统计
+// ============================================================================
+
+// 串行化用量写入，避免并发请求互相覆盖
+let usageWriteChain: Promise<void> = Promise.resolve();
+
+/**
+ * 粗略估算 token 数（接口未返回 usage 时使用）
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * 获取今日 AI 用量
+ */
+export async function getAIUsage(): Promise<AIUsage> {
+  const today = getTodayDateString();
+  const usage: AIUsage | undefined = await getCache(AI_USAGE_KEY);
+  return usage?.date === today ? usage : { date: today, requests: 0, tokens: 0 };
+}
+
+/**
+ * 记录一次 LLM 请求的用量
+ */
+function recordUsage(tokens: number): Promise<void> {
+  usageWriteChain = usageWriteChain
+    .then(async () => {
+      const usage = await getAIUsage();
+      await saveCache(AI_USAGE_KEY, {
+        ...usage,
+        requests: usage.requests + 1,
+        tokens: usage.tokens + tokens,
+      });
+    })
+    .catch((error) => {
+      logger.warn('[AI Service] Failed to record usage:', error);
+    });
+  return usageWriteChain;
+}
+
+/**
+ * 检查今日用量是否已超出设置的预算，超出时抛出 BudgetExceededError
+ * @param reservedRequests 已派发但尚未计入用量的请求数（批量摘要并发时预先占用请求预算）
+ */
+export async function checkBudget(reservedRequests: number = 0): Promise<void> {
+  const config = await getConfig();
+  const usage = await getAIUsage();
+  const requestBudget = config.dailyRequestBudget || 0;
+  const tokenBudget = config.dailyTokenBudget || 0;
+
+  if ((requestBudget > 0 && usage.requests + reservedRequests >= requestBudget) ||
+      (tokenBudget > 0 && usage.tokens >= tokenBudget)) {
+    throw new BudgetExceededError();
+  }
+}
+
 // ============================================================================
 // LLM API 调用
 // ============================================================================
@@ -164,40 +311,18 @@ async function callLLM(
     maxTokens = 500,
   } = options;
 
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-    'Authorization': `Bearer ${config.apiKey}`,
-  };
+  const adapter = getProviderAdapter(config.provider);
+  const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+  const { url, init } = adapter.buildRequest(config, { messages, temperature, maxTokens }, false);
 
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      const requestBody = {
-        model: config.model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature,
-        max_tokens: maxTokens,
-      };
-      
-      const response = await fetch(config.baseUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(requestBody),
-      });
+      const response = await fetch(url, init);
 
       if (!response.ok) {
-        let errorDetail = `HTTP ${response.status}`;
-        try {
-          const errorData = await response.json();
-          if (errorData.error?.message) {
-            errorDetail = errorData.error.message;
-          } else if (typeof errorData.error === 'string') {
-            errorDetail = errorData.error;
-          }
-        } catch {
-          // 无法解析 JSON，使用状态码
-        }
+        const errorDetail = await readErrorDetail(response);
 
         // 429 (Too Many Requests) - 需要重试
         if (response.status === 429 && attempt < maxRetries) {
@@ -216,8 +341,9 @@ async function callLLM(
         throw new Error(`API 请求失败: ${errorDetail}`);
       }
 
-      const data = await response.json();
-      return data.choices?.[0]?.message?.content || null;
+      const { content, tokens } = adapter.parseResponse(await response.json());
+      await recordUsage(tokens ?? estimateTokens(prompt + (content || '')));
+      return content;
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
@@ -238,27 +364,19 @@ async function callLLM(
 
 /**
  * 调用 LLM API（流式响应）
+ * prompt 可以是单条提示，也可以是多轮对话消息
  */
 async function callLLMStream(
-  prompt: string, 
+  prompt: string | LLMMessage[], 
   config: LLMConfig, 
   onStream?: StreamCallback
 ): Promise<string | null> {
+  const adapter = getProviderAdapter(config.provider);
+  const messages: LLMMessage[] = typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+  const { url, init } = adapter.buildRequest(config, { messages, temperature: 0.7, maxTokens: 1000 }, true);
+
   try {
-    const response = await fetch(config.baseUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.apiKey}`
-      },
-      body: JSON.stringify({
-        model: config.model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7,
-        max_tokens: 1000,
-        stream: true,
-      })
-    });
+    const response = await fetch(url, init);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -274,6 +392,8 @@ async function callLLMStream(
     const decoder = new TextDecoder();
     let fullText = '';
     let buffer = '';
+    // 流中报告的 token 用量（累计值，取最后一次）
+    const usage: { input?: number; output?: number; total?: number } = {};
 
     while (true) {
       const { done, value } = await reader.read();
@@ -282,36 +402,38 @@ async function callLLMStream(
       // 解码数据并添加到缓冲区
       buffer += decoder.decode(value, { stream: true });
 
-      // 按行分割处理 SSE 数据
+      // 按行分割处理 SSE / NDJSON 数据
       const lines = buffer.split('\n');
       buffer = lines.pop() || ''; // 保留最后一个可能不完整的行
 
       for (const line of lines) {
         const trimmedLine = line.trim();
-        if (!trimmedLine || trimmedLine === 'data: [DONE]') {
+        if (!trimmedLine) {
           continue;
         }
 
-        if (trimmedLine.startsWith('data: ')) {
-          try {
-            const jsonStr = trimmedLine.slice(6);
-            const data = JSON.parse(jsonStr);
-            const content = data.choices?.[0]?.delta?.content;
-
-            if (content) {
-              fullText += content;
-              // 调用流式回调
-              if (onStream) {
-                onStream(fullText);
-              }
-            }
-          } catch {
-            // 跳过无法解析的 SSE 行
+        // 无法解析的行由适配器返回 null，直接跳过
+        const chunk = adapter.parseStreamLine(trimmedLine);
+        if (!chunk) continue;
+
+        if (chunk.inputTokens !== undefined) usage.input = chunk.inputTokens;
+        if (chunk.outputTokens !== undefined) usage.output = chunk.outputTokens;
+        if (chunk.totalTokens !== undefined) usage.total = chunk.totalTokens;
+
+        if (chunk.text) {
+          fullText += chunk.text;
+          // 调用流式回调
+          if (onStream) {
+            onStream(fullText);
           }
         }
       }
     }
 
+    const reportedTokens = usage.total
+      ?? (usage.input !== undefined || usage.output !== undefined ? (usage.input ?? 0) + (usage.output ?? 0) : undefined);
+    const promptText = messages.map(message => message.content).join('\n');
+    await recordUsage(reportedTokens ?? estimateTokens(promptText + fullText));
     return fullText || null;
   } catch (error) {
     // 提供更详细的错误信息
@@ -323,29 +445,166 @@ async function callLLMStream(
 }
 
 // ============================================================================
-// 摘要生成服务
+// 连接测试与模型发现
 // ============================================================================
 
+// Ollama 默认端口，用于识别通过 OpenAI 兼容接口访问的 Ollama
+const OLLAMA_DEFAULT_PORT = '11434';
+
+/**
+ * 是否为 Ollama 服务（Ollama 类型，或 Base URL 使用 Ollama 默认端口）
+ */
+function isOllamaEndpoint(config: LLMConfig): boolean {
+  if (config.provider === 'ollama') return true;
+  try {
+    return new URL(config.baseUrl).port === OLLAMA_DEFAULT_PORT;
+  } catch {
+    return false;
+  }
+}
+
 /**
- * 构建摘要生成 prompt
+ * 按 HTTP 状态码归类错误
+ * Ollama 默认拒绝 chrome-extension:// 来源的请求（403），需要设置 OLLAMA_ORIGINS
  */
-function buildSummaryPrompt(item: FeedItem, language: string): string {
-  return `请为以下技术内容生成一个简洁的摘要（50-100字），突出关键信息和价值点：
+function classifyStatus(status: number, config: LLMConfig): ConnectionErrorKind {
+  if (status === 403 && isOllamaEndpoint(config)) return 'ollama_origin';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404) return 'not_found';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  return 'request_failed';
+}
 
-标题: ${item.title}
-来源: ${item.source}
-链接: ${item.url}
-${item.summary ? `原文摘要: ${item.summary.slice(0, 500)}` : ''}
-${item.tags?.length ? `标签: ${item.tags.join(', ')}` : ''}
+/**
+ * 带超时的 fetch，超时后抛出 AbortError
+ */
+async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), CONNECTION_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
 
-要求：
-1. 使用${language}输出
-2. 简洁明了，突出核心价值
-3. 如果是代码库，说明其用途和亮点
-4. 如果是论文，说明研究贡献
-5. 如果是文章，说明主要观点
+/**
+ * 按 fetch 抛出的异常归类错误
+ */
+function classifyFetchError(error: unknown): ConnectionErrorKind {
+  if (error instanceof Error && error.name === 'AbortError') return 'timeout';
+  return 'network';
+}
+
+/**
+ * 测试连接：使用尚未保存的设置发送一个最小请求，返回耗时或失败原因
+ * 测试请求不计入每日用量
+ */
+export async function testConnection(appConfig: AppConfig): Promise<ConnectionTestResult> {
+  const config = toLLMConfig(appConfig);
+  if (!config) {
+    return { ok: false, latencyMs: 0, errorKind: 'not_configured' };
+  }
+
+  const adapter = getProviderAdapter(config.provider);
+  const messages: LLMMessage[] = [{ role: 'user', content: 'ping' }];
+  const { url, init } = adapter.buildRequest(config, { messages, temperature: 0, maxTokens: 16 }, false);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetchWithTimeout(url, init);
+    const latencyMs = Date.now() - startedAt;
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        latencyMs,
+        status: response.status,
+        errorKind: classifyStatus(response.status, config),
+        detail: await readErrorDetail(response),
+      };
+    }
+
+    // Base URL 指向普通网页时也会返回 200，需要确认是 JSON
+    try {
+      adapter.parseResponse(await response.json());
+    } catch {
+      return { ok: false, latencyMs, status: response.status, errorKind: 'invalid_response' };
+    }
+
+    return { ok: true, latencyMs };
+  } catch (error) {
+    logger.warn('[AI Service] Connection test failed:', error);
+    return {
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      errorKind: classifyFetchError(error),
+      detail: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * 获取服务商提供的模型列表（OpenAI 兼容接口的 /models 或对应厂商接口）
+ */
+export async function listModels(appConfig: AppConfig): Promise<ModelListResult> {
+  const config = toLLMConfig(appConfig, false);
+  if (!config) {
+    return { models: [], errorKind: 'not_configured' };
+  }
 
-请直接返回摘要内容，不要包含任何前缀或格式标记。`;
+  const adapter = getProviderAdapter(config.provider);
+  const { url, init } = adapter.buildModelsRequest(config);
+
+  try {
+    const response = await fetchWithTimeout(url, init);
+    if (!response.ok) {
+      return {
+        models: [],
+        status: response.status,
+        errorKind: classifyStatus(response.status, config),
+        detail: await readErrorDetail(response),
+      };
+    }
+
+    try {
+      return { models: adapter.parseModels(await response.json()) };
+    } catch {
+      return { models: [], status: response.status, errorKind: 'invalid_response' };
+    }
+  } catch (error) {
+    logger.warn('[AI Service] Model discovery failed:', error);
+    return {
+      models: [],
+      errorKind: classifyFetchError(error),
+      detail: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// ============================================================================
+// 摘要生成服务
+// ============================================================================
+
+/**
+ * 构建摘要生成 prompt（模板可按来源类型覆盖）
+ */
+function buildSummaryPrompt(
+  item: FeedItem,
+  language: string,
+  articleText: string | null,
+  templates?: PromptTemplates
+): string {
+  return renderPromptTemplate(resolvePromptTemplate(templates, 'summary', item.source), {
+    title: item.title,
+    source: item.source,
+    url: item.url,
+    summary: item.summary ? item.summary.slice(0, 500) : '',
+    tags: item.tags?.join(', ') || '',
+    article: articleText || '',
+    language,
+  });
 }
 
 /**
@@ -395,7 +654,9 @@ export async function generateSummary(
   try {
     // 获取用户语言设置
     const language = await getUserLanguage();
-    const prompt = buildSummaryPrompt(item, language);
+    // 下载正文（GitHub 取 README），失败时只用标题和摘要
+    const articleText = await getArticleText(item, config.contextTokens);
+    const prompt = buildSummaryPrompt(item, language, articleText, config.promptTemplates);
     const response = await callLLMStream(prompt, config, onStream);
 
     if (response) {
@@ -420,6 +681,14 @@ export async function generateSummary(
   }
 }
 
+/**
+ * 条目是否已有未过期的摘要缓存
+ */
+export async function hasCachedSummary(itemId: string): Promise<boolean> {
+  const cached = await getCache(`${SUMMARY_CACHE_PREFIX}${itemId}`);
+  return !!cached && Date.now() - cached.timestamp < SUMMARY_CACHE_DURATION;
+}
+
 // 兼容旧 API 名称
 export const generateSingleSummary = generateSummary;
 
@@ -430,35 +699,8 @@ export const generateSingleSummary = generateSummary;
 /**
  * 构建标签生成 prompt
  */
-function buildTagsPrompt(content: string, language: string): string {
-  return `请为以下技术内容生成3-5个相关标签和1个分类：
-
-内容：
-${content}
-
-分类选项（必须从中选择）：
-- AI: AI/机器学习/深度学习相关
-- Development: 编程/开发工具/框架相关
-- News: 技术新闻/行业动态
-- Research: 学术研究/论文/实验
-- Product: 产品发布/工具推荐
-- Tutorial: 教程/指南/文档
-- Other: 其他分类
-
-要求：
-1. 使用${language}输出标签
-2. 标签应该简洁、具体、有价值
-3. 每个标签1-3个词
-4. 只选择一个分类
-5. 标签应该反映内容的核心价值
-
-返回格式（JSON）：
-{
-  "tags": ["标签1", "标签2", "标签3"],
-  "category": "AI"
-}
-
-请只返回JSON，不要包含其他内容。`;
+function buildTagsPrompt(content: string, language: string, templates?: PromptTemplates): string {
+  return renderPromptTemplate(resolvePromptTemplate(templates, 'tags'), { content, language });
 }
 
 /**
@@ -575,7 +817,7 @@ export async function generateTags(content: string, skipCache: boolean = false):
   try {
     // 获取用户语言设置
     const language = await getUserLanguage();
-    const prompt = buildTagsPrompt(content, language);
+    const prompt = buildTagsPrompt(content, language, config.promptTemplates);
     // 标签生成不需要流式，使用非流式调用，增加 maxTokens 确保完整输出
     const response = await callLLM(prompt, config, {
       temperature: 0.5,
@@ -604,6 +846,312 @@ export async function generateTags(content: string, skipCache: boolean = false):
   }
 }
 
+// ============================================================================
+// 每日简报服务
+// ============================================================================
+
+// 参与简报生成的最大条目数
+const DIGEST_MAX_ITEMS = 30;
+
+/**
+ * 构建每日简报 prompt
+ */
+function buildDigestPrompt(items: FeedItem[], language: string): string {
+  const itemsList = items.map((item, index) => {
+    const summary = (item.aiSummary || item.summary || '').replace(/\s+/g, ' ').slice(0, 200);
+    return `${index + 1}. [${item.sourceName || item.source}] ${item.title}${summary ? ` - ${summary}` : ''}`;
+  }).join('\n');
+
+  return `以下是今天的技术热点，请整理成一份每日简报：
+
+${itemsList}
+
+要求：
+1. 使用${language}输出
+2. 将内容按主题分为 3-6 组，每组包含 2-6 条，可以舍弃不重要的条目
+3. 每组给出简短的主题名，以及恰好两句话的要点总结
+4. 用序号（1-${items.length}）引用条目
+
+返回格式（JSON）：
+{
+  "groups": [
+    { "theme": "主题", "takeaway": "第一句。第二句。", "items": [1, 5, 8] }
+  ]
+}
+
+请只返回JSON，不要包含其他内容。`;
+}
+
+/**
+ * 解析简报响应，将序号映射回条目链接
+ */
+function parseDigestResponse(response: string, items: FeedItem[]): DigestGroup[] {
+  const parsed = JSON.parse(cleanJsonResponse(response));
+  if (!Array.isArray(parsed.groups)) {
+    throw new Error('AI 返回的简报格式无效');
+  }
+
+  return parsed.groups
+    .map((group: { theme?: unknown; takeaway?: unknown; items?: unknown }) => {
+      const indices = Array.isArray(group.items) ? group.items : [];
+      const links = indices
+        .map(index => items[parseInt(String(index)) - 1])
+        .filter((item): item is FeedItem => !!item)
+        .map(item => ({ id: item.id, title: item.title, url: item.url, source: item.sourceName || item.source }));
+      return {
+        theme: String(group.theme ?? '').trim(),
+        takeaway: String(group.takeaway ?? '').trim(),
+        links,
+      };
+    })
+    .filter((group: DigestGroup) => group.theme && group.links.length > 0);
+}
+
+/**
+ * 生成每日简报
+ * @param items 已按热度排序的条目，取前 DIGEST_MAX_ITEMS 条
+ * @param date 简报日期（YYYY-MM-DD）
+ * @returns 简报，如果 API 未配置则抛出 APINotConfiguredError
+ */
+export async function generateDigest(items: FeedItem[], date: string): Promise<Digest> {
+  const config = await getLLMConfig();
+
+  if (!config) {
+    throw new APINotConfiguredError();
+  }
+
+  const topItems = items.slice(0, DIGEST_MAX_ITEMS);
+  if (topItems.length === 0) {
+    throw new Error('没有可用于生成简报的内容');
+  }
+
+  try {
+    const language = await getUserLanguage();
+    const prompt = buildDigestPrompt(topItems, language);
+    const response = await callLLM(prompt, config, {
+      temperature: 0.5,
+      maxTokens: 2000,
+    });
+
+    if (response) {
+      const groups = parseDigestResponse(response, topItems);
+      if (groups.length === 0) {
+        throw new Error('AI 返回的简报为空');
+      }
+      return {
+        date,
+        generatedAt: Date.now(),
+        language,
+        itemCount: topItems.length,
+        groups,
+      };
+    }
+
+    throw new Error('AI 返回内容为空');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'AI 简报生成失败';
+    throw new Error(errorMessage);
+  }
+}
+
+// ============================================================================
+// 对话服务
+// ============================================================================
+
+// 整个信息流对话时最多附带的条目数
+const CHAT_FEED_MAX_ITEMS = 40;
+// 附带的历史消息条数上限
+const CHAT_HISTORY_LIMIT = 12;
+
+// 对话回答结果
+export interface ChatResult {
+  content: string;
+  references: ChatReference[];
+}
+
+function formatItemDate(item: FeedItem): string {
+  if (!item.publishedAt) return '';
+  const date = new Date(item.publishedAt);
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+}
+
+/**
+ * 按与问题的词重叠程度挑选条目，相关的在前，其余按原有排序补足
+ * 返回条目在完整列表中的编号（从 1 开始），保证多轮对话中编号稳定
+ */
+function selectChatItems(items: FeedItem[], query: string): { index: number; item: FeedItem }[] {
+  const queryTokens = new Set(tokenizeTitle(query));
+  const scored = items.map((item, i) => {
+    const text = [item.title, item.summary, item.aiSummary, item.source, item.sourceName, ...(item.tags || [])]
+      .filter(Boolean)
+      .join(' ');
+    const score = tokenizeTitle(text).filter(token => queryTokens.has(token)).length;
+    return { index: i + 1, item, score };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, CHAT_FEED_MAX_ITEMS)
+    .map(({ index, item }) => ({ index, item }));
+}
+
+/**
+ * 构建对话资料：单条内容附带正文，整个信息流附带相关条目列表
+ */
+async function buildChatContext(
+  scope: ChatScope,
+  items: FeedItem[],
+  query: string,
+  config: LLMConfig
+): Promise<{ context: string; candidates: Map<number, FeedItem> }> {
+  const candidates = new Map<number, FeedItem>();
+
+  if (scope.type === 'item') {
+    const { item } = scope;
+    candidates.set(1, item);
+    const articleText = await getArticleText(item, config.contextTokens);
+    const lines = [
+      `[1] ${item.title}（${item.sourceName || item.source}${formatItemDate(item) ? `，${formatItemDate(item)}` : ''}）`,
+      `链接: ${item.url}`,
+      item.summary ? `原文摘要: ${item.summary.slice(0, 500)}` : '',
+      item.aiSummary ? `AI 摘要: ${item.aiSummary}` : '',
+      articleText ? `正文节选:\n${articleText}` : '',
+    ];
+    return { context: lines.filter(Boolean).join('\n'), candidates };
+  }
+
+  const lines = selectChatItems(items, query).map(({ index, item }) => {
+    candidates.set(index, item);
+    const date = formatItemDate(item);
+    const brief = item.aiSummary || item.summary?.slice(0, 200) || '';
+    return `[${index}] ${item.title}（${item.sourceName || item.source}${date ? `，${date}` : ''}）${brief ? `\n    ${brief}` : ''}`;
+  });
+  return { context: lines.join('\n'), candidates };
+}
+
+function buildChatPrompt(context: string, question: string, language: string): string {
+  return `你是一个技术资讯助手，请根据下面的资料回答用户的问题。
+
+今天是 ${getTodayDateString()}。
+
+资料：
+${context}
+
+要求：
+1. 使用${language}回答
+2. 只依据资料作答，资料中没有的信息请直接说明
+3. 引用资料时在句末用编号标注来源，如 [3]，可以同时引用多条
+4. 回答简洁，必要时使用列表
+
+问题：${question}`;
+}
+
+// 按回答中首次出现的顺序提取引用
+function extractReferences(content: string, candidates: Map<number, FeedItem>): ChatReference[] {
+  const references: ChatReference[] = [];
+  const seen = new Set<number>();
+  for (const match of content.matchAll(/\[(\d+)\]/g)) {
+    const index = parseInt(match[1]);
+    const item = candidates.get(index);
+    if (!item || seen.has(index)) continue;
+    seen.add(index);
+    references.push({ index, id: item.id, title: item.title, url: item.url, source: item.sourceName || item.source });
+  }
+  return references;
+}
+
+/**
+ * 针对单条内容或整个信息流进行多轮对话（流式输出）
+ * @param history 对话历史，最后一条为本次的用户问题
+ * @param scope 对话范围
+ * @param items 当前信息流（scope 为 feed 时作为资料来源）
+ * @param onStream 流式响应回调
+ */
+export async function chatWithFeed(
+  history: ChatMessage[],
+  scope: ChatScope,
+  items: FeedItem[],
+  onStream?: StreamCallback
+): Promise<ChatResult> {
+  const config = await getLLMConfig();
+  if (!config) {
+    throw new APINotConfiguredError();
+  }
+
+  const turns = history.filter(message => !message.error && message.content.trim());
+  const question = turns[turns.length - 1];
+  if (!question || question.role !== 'user') {
+    throw new Error('缺少用户问题');
+  }
+
+  // 检索时结合上一个问题，便于理解“它”“第二条”之类的追问
+  const userQuestions = turns.filter(message => message.role === 'user');
+  const query = userQuestions.slice(-2).map(message => message.content).join(' ');
+
+  const language = await getUserLanguage();
+  const { context, candidates } = await buildChatContext(scope, items, query, config);
+
+  // 之前的轮次只保留原文，资料附在本次问题中；部分接口要求对话以用户消息开头
+  const previous = turns.slice(0, -1).slice(-CHAT_HISTORY_LIMIT);
+  while (previous.length > 0 && previous[0].role !== 'user') {
+    previous.shift();
+  }
+  const messages: LLMMessage[] = [
+    ...previous.map(message => ({ role: message.role, content: message.content })),
+    { role: 'user', content: buildChatPrompt(context, question.content, language) },
+  ];
+
+  const response = await callLLMStream(messages, config, onStream);
+  if (!response) {
+    throw new Error('AI 返回内容为空');
+  }
+
+  const content = response.trim();
+  return { content, references: extractReferences(content, candidates) };
+}
+
+// ============================================================================
+// 向量服务
+// ============================================================================
+
+// 计算向量的结果
+export interface EmbeddingResult {
+  model: string;
+  vectors: number[][];
+}
+
+/**
+ * 调用服务商的向量接口，为一批文本计算向量（顺序与输入一致）
+ */
+export async function createEmbeddings(texts: string[]): Promise<EmbeddingResult> {
+  const config = await getLLMConfig();
+  if (!config) {
+    throw new APINotConfiguredError();
+  }
+
+  const adapter = getProviderAdapter(config.provider);
+  if (!adapter.buildEmbeddingRequest || !adapter.parseEmbeddings || !config.embeddingModel) {
+    throw new EmbeddingsNotSupportedError();
+  }
+  if (texts.length === 0) {
+    return { model: config.embeddingModel, vectors: [] };
+  }
+
+  const { url, init } = adapter.buildEmbeddingRequest(config, texts);
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`向量接口请求失败: ${await readErrorDetail(response)}`);
+  }
+
+  const vectors = adapter.parseEmbeddings(await response.json());
+  if (vectors.length !== texts.length) {
+    throw new Error('向量接口返回的数量与请求不一致');
+  }
+
+  await recordUsage(estimateTokens(texts.join('\n')));
+  return { model: config.embeddingModel, vectors };
+}
+
 // ============================================================================
 // 推荐服务
 // ============================================================================
@@ -623,16 +1171,16 @@ export async function getRecommendations(items: FeedItem[]): Promise<FeedItem[]>
   }
 
   try {
-    const itemsList = items.slice(0, 20).map((item, index) =>
+    const candidates = items.slice(0, 20);
+    const itemsList = candidates.map((item, index) =>
       `${index + 1}. ${item.title} - ${item.source}`
     ).join('\n');
 
-    const prompt = `从以下20条技术热点中，选择5条最值得关注的（对于AI开发者或技术工程师），返回索引号（1-20）：
-
-${itemsList}
-
-返回格式：["1", "5", "8", "12", "16"]
-请只返回JSON数组，不要包含其他内容。`;
+    const prompt = renderPromptTemplate(resolvePromptTemplate(config.promptTemplates, 'recommendations'), {
+      items: itemsList,
+      count: String(candidates.length),
+      language: await getUserLanguage(),
+    });
 
     const response = await callLLM(prompt, config);
 
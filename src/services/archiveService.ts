@@ -0,0 +1,179 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * 历史归档服务
+ * 每次刷新时把抓取到的全部条目写入 IndexedDB 归档（按 ID 去重），
+ * 记录首次/最近出现时间和分数变化，信息流被新数据覆盖后仍可按日期回看和搜索。
+ */
+
+import { FeedItem } from '../types/index.ts';
+import { ArchivedItem, ScoreSnapshot, ScoreValues } from '../types/archive';
+import {
+  openDatabase, transactionDone, idbGet, idbGetAll, idbPutMany, idbDeleteMany, idbGetAllByIndex, idbGetAllKeysByIndex,
+} from '../utils/idb.ts';
+import { logger } from '../utils/logger.ts';
+
+const DB_NAME = 'infotrend_archive';
+const DB_VERSION = 1;
+const STORE_NAME = 'items';
+
+// 默认保留天数（按最近一次出现时间计算，0 表示永久保留）
+export const DEFAULT_ARCHIVE_RETENTION_DAYS = 90;
+// 每个条目保留的热度记录数
+const MAX_SCORE_HISTORY = 100;
+// 搜索结果上限
+const MAX_SEARCH_RESULTS = 100;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('firstSeen', 'firstSeen');
+        store.createIndex('lastSeen', 'lastSeen');
+      }
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+// 归档时去掉界面上的临时状态
+function toArchivedFeedItem(item: FeedItem): FeedItem {
+  const archived = { ...item };
+  delete archived.aiSummaryLoading;
+  delete archived.aiSummaryError;
+  return archived;
+}
+
+// 本次抓取的热度指标（总计及各来源），来源没有任何指标时不记录
+function toScoreSnapshot(item: FeedItem, at: number): ScoreSnapshot | null {
+  const { score, commentCount, upvotes } = item;
+  if (score === undefined && commentCount === undefined && upvotes === undefined) return null;
+
+  const sources: Record<string, ScoreValues> = {};
+  (item.mergedSources ?? [item]).forEach(source => {
+    sources[source.sourceId || source.source] = {
+      score: source.score,
+      commentCount: source.commentCount,
+      upvotes: source.upvotes,
+    };
+  });
+  return { at, score, commentCount, upvotes, sources };
+}
+
+/**
+ * 归档本次抓取的条目：新条目记录首次出现时间，已有条目更新数据、最近出现时间和分数记录
+ * 分数记录使用条目的实际抓取时间（fetchedAt）
+ */
+export async function archiveItems(items: FeedItem[], now: number = Date.now()): Promise<void> {
+  if (items.length === 0) return;
+  const db = await getDatabase();
+  const existing = await Promise.all(items.map(item => idbGet<ArchivedItem>(db, STORE_NAME, item.id)));
+
+  const records = items.map((item, index): ArchivedItem => {
+    const previous = existing[index];
+    const scoreHistory = previous?.scoreHistory ?? [];
+    // 缓存或 304 返回的数据保持原抓取时间，已记录过的不再重复记录
+    const fetchedAt = item.fetchedAt ?? now;
+    const lastSnapshot = scoreHistory[scoreHistory.length - 1];
+    const snapshot = lastSnapshot && lastSnapshot.at >= fetchedAt ? null : toScoreSnapshot(item, fetchedAt);
+    const updatedHistory = snapshot ? [...scoreHistory, snapshot].slice(-MAX_SCORE_HISTORY) : scoreHistory;
+    return {
+      id: item.id,
+      // 保留已生成的 AI 摘要（本次抓取的数据中可能没有）
+      item: { ...toArchivedFeedItem(item), aiSummary: item.aiSummary || previous?.item.aiSummary },
+      firstSeen: previous?.firstSeen ?? now,
+      lastSeen: now,
+      scoreHistory: updatedHistory,
+    };
+  });
+
+  await idbPutMany(db, STORE_NAME, records);
+  const added = existing.filter(record => !record).length;
+  logger.info(`[Archive] Archived ${records.length} items (${added} new)`);
+}
+
+/**
+ * 获取指定条目的热度记录（没有归档或没有记录的条目不返回）
+ */
+export async function getScoreHistories(ids: string[]): Promise<Map<string, ScoreSnapshot[]>> {
+  const db = await getDatabase();
+  const records = await Promise.all(ids.map(id => idbGet<ArchivedItem>(db, STORE_NAME, id)));
+  return new Map(
+    records
+      .filter((record): record is ArchivedItem => !!record && record.scoreHistory.length > 0)
+      .map(record => [record.id, record.scoreHistory])
+  );
+}
+
+/**
+ * 获取首次出现时间在 [start, end) 内的归档条目（最新的在前）
+ */
+export async function getArchivedItems(start: number, end: number): Promise<ArchivedItem[]> {
+  const db = await getDatabase();
+  const records = await idbGetAllByIndex<ArchivedItem>(
+    db, STORE_NAME, 'firstSeen', IDBKeyRange.bound(start, end, false, true)
+  );
+  return records.reverse();
+}
+
+/**
+ * 最早的归档时间，用于限制日期导航（归档为空时返回 null）
+ */
+export async function getOldestArchiveTime(): Promise<number | null> {
+  const db = await getDatabase();
+  const [oldest] = await idbGetAllByIndex<ArchivedItem>(db, STORE_NAME, 'firstSeen', null, 1);
+  return oldest?.firstSeen ?? null;
+}
+
+/**
+ * 在全部归档中搜索标题、摘要和标签（最近出现的在前）
+ */
+export async function searchArchive(query: string): Promise<ArchivedItem[]> {
+  const trimmed = query.trim().toLowerCase();
+  if (!trimmed) return [];
+
+  const db = await getDatabase();
+  return (await idbGetAll<ArchivedItem>(db, STORE_NAME))
+    .filter(({ item }) =>
+      item.title.toLowerCase().includes(trimmed) ||
+      (item.summary && item.summary.toLowerCase().includes(trimmed)) ||
+      (item.aiSummary && item.aiSummary.toLowerCase().includes(trimmed)) ||
+      (item.tags && item.tags.some(tag => tag.toLowerCase().includes(trimmed)))
+    )
+    .sort((a, b) => b.lastSeen - a.lastSeen)
+    .slice(0, MAX_SEARCH_RESULTS);
+}
+
+/**
+ * 删除超过保留天数未再出现的条目
+ * @param retentionDays 保留天数，0 表示永久保留
+ */
+export async function pruneArchive(retentionDays: number = DEFAULT_ARCHIVE_RETENTION_DAYS): Promise<void> {
+  if (retentionDays <= 0) return;
+  const db = await getDatabase();
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const expired = await idbGetAllKeysByIndex(db, STORE_NAME, 'lastSeen', IDBKeyRange.upperBound(cutoff, true));
+  await idbDeleteMany(db, STORE_NAME, expired);
+  if (expired.length > 0) {
+    logger.info(`[Archive] Pruned ${expired.length} items older than ${retentionDays} days`);
+  }
+}
+
+/**
+ * 清空归档（“清除所有数据”时使用）
+ */
+export async function clearArchive(): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  transaction.objectStore(STORE_NAME).clear();
+  await transactionDone(transaction);
+}
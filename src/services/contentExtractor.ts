@@ -0,0 +1,222 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * 正文提取服务
+ * 下载文章页面（或 GitHub README）并提取主要正文，作为 AI 摘要的上下文。
+ * 网页采用 readability 式的启发规则：去掉导航/脚本等噪声，选出段落文字最多的容器。
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI, Cheerio } from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import { FeedItem } from '../types/index.ts';
+import { getCache, saveCache } from './storage.ts';
+import { logger } from '../utils/logger.ts';
+
+// 正文缓存配置
+export const ARTICLE_CACHE_PREFIX = 'article_text_';
+const ARTICLE_CACHE_DURATION = 3 * 24 * 60 * 60 * 1000; // 3 天
+// 网络错误、超时、限流等临时失败只短暂缓存，之后重新下载
+const ARTICLE_RETRY_DURATION = 10 * 60 * 1000; // 10 分钟
+
+// 默认正文 token 预算
+export const DEFAULT_CONTEXT_TOKENS = 1500;
+// 粗略按 4 个字符 ≈ 1 token 换算
+const CHARS_PER_TOKEN = 4;
+// 缓存的原文上限，预算调大后无需重新下载
+const MAX_CACHED_CHARS = 40000;
+
+const FETCH_TIMEOUT_MS = 10000;
+
+// 提取前移除的噪声元素
+const NOISE_SELECTORS = [
+  'script', 'style', 'noscript', 'iframe', 'svg', 'canvas', 'form', 'button',
+  'nav', 'header', 'footer', 'aside',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[aria-hidden="true"]',
+  '.sidebar', '.comments', '#comments', '.advertisement', '.ads', '.share', '.related',
+].join(', ');
+
+// 常见正文容器，命中且内容足够时直接使用
+const CONTENT_SELECTORS = [
+  'article', '[itemprop="articleBody"]', '.post-content', '.entry-content',
+  '.article-content', '.markdown-body', 'main', '[role="main"]', '#content',
+];
+
+// 正文块元素
+const BLOCK_SELECTORS = 'p, h1, h2, h3, h4, h5, h6, li, pre, blockquote';
+
+// 正文容器至少需要的字符数
+const MIN_CONTENT_CHARS = 200;
+
+/**
+ * 按 token 预算截断文本，尽量在句子或段落边界处截断
+ */
+export function trimToTokenBudget(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+
+  const cut = text.slice(0, maxChars);
+  const boundary = Math.max(
+    cut.lastIndexOf('\n'),
+    cut.lastIndexOf('. '),
+    cut.lastIndexOf('。'),
+  );
+  return (boundary > maxChars * 0.6 ? cut.slice(0, boundary + 1) : cut).trim() + '…';
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+}
+
+// 容器内的块级正文
+function collectBlocks($: CheerioAPI, container: Cheerio<AnyNode>): string {
+  const blocks: string[] = [];
+  container.find(BLOCK_SELECTORS).each((_, el) => {
+    // 嵌套块（如 li 中的 p）只取最内层
+    if ($(el).find(BLOCK_SELECTORS).length > 0) return;
+    const text = normalizeWhitespace($(el).text());
+    if (text) blocks.push(text);
+  });
+  return blocks.join('\n');
+}
+
+// 按段落文字量为候选容器打分，取最高者
+function findBestContainer($: CheerioAPI): Cheerio<AnyNode> | null {
+  let best: Cheerio<AnyNode> | null = null;
+  let bestScore = 0;
+
+  $('p').each((_, p) => {
+    const parent = $(p).parent();
+    if (parent.data('scored')) return;
+    parent.data('scored', true);
+
+    const score = parent.children('p').toArray()
+      .reduce((sum, child) => sum + $(child).text().trim().length, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      best = parent;
+    }
+  });
+
+  return bestScore >= MIN_CONTENT_CHARS ? best : null;
+}
+
+/**
+ * 从 HTML 中提取正文
+ */
+export function extractMainText(html: string): string {
+  const $ = cheerio.load(html);
+  $(NOISE_SELECTORS).remove();
+
+  for (const selector of CONTENT_SELECTORS) {
+    const candidate = $(selector).first();
+    if (candidate.length === 0) continue;
+    const text = collectBlocks($, candidate);
+    if (text.length >= MIN_CONTENT_CHARS) return text;
+  }
+
+  const container = findBestContainer($);
+  if (container) {
+    return collectBlocks($, container);
+  }
+
+  return normalizeWhitespace($('body').text());
+}
+
+/**
+ * Markdown 转纯文本（用于 README），去掉图片、徽章、HTML 标签和链接地址
+ */
+export function markdownToText(markdown: string): string {
+  return normalizeWhitespace(
+    markdown
+      .replace(/```[\s\S]*?```/g, '')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[!\[[^\]]*\]\([^)]*\)\]\([^)]*\)/g, '')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/^#{1,6}\s*/gm, '')
+      .replace(/[*_`]{1,3}/g, '')
+  );
+}
+
+// github.com/{owner}/{repo} 形式的仓库地址
+function parseGitHubRepo(url: string): { owner: string; repo: string } | null {
+  const match = url.match(/^https?:\/\/(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+)\/?(?:[?#].*)?$/);
+  return match ? { owner: match[1], repo: match[2].replace(/\.git$/, '') } : null;
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit = {}): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// 页面或 README 不存在时返回 null；其他 HTTP 错误（限流、5xx）视为临时失败并抛出
+function checkResponse(response: Response): boolean {
+  if (response.ok) return true;
+  if (response.status === 404 || response.status === 410) return false;
+  throw new Error(`HTTP ${response.status}`);
+}
+
+async function fetchReadme(owner: string, repo: string): Promise<string | null> {
+  const response = await fetchWithTimeout(`https://api.github.com/repos/${owner}/${repo}/readme`, {
+    headers: { Accept: 'application/vnd.github.raw' },
+  });
+  if (!checkResponse(response)) return null;
+  return markdownToText(await response.text());
+}
+
+async function fetchArticle(url: string): Promise<string | null> {
+  const response = await fetchWithTimeout(url);
+  if (!checkResponse(response)) return null;
+
+  // PDF 等非网页内容不做提取
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType && !contentType.includes('html')) return null;
+
+  return extractMainText(await response.text());
+}
+
+/**
+ * 获取条目的正文（带缓存），按 token 预算截断
+ * 下载或解析失败时返回 null，调用方退回到标题 + 摘要
+ */
+export async function getArticleText(item: FeedItem, maxTokens: number = DEFAULT_CONTEXT_TOKENS): Promise<string | null> {
+  if (maxTokens <= 0) return null;
+
+  const cacheKey = `${ARTICLE_CACHE_PREFIX}${item.id}`;
+  const cached = await getCache(cacheKey);
+  const cacheDuration = cached?.transient ? ARTICLE_RETRY_DURATION : ARTICLE_CACHE_DURATION;
+  if (cached && Date.now() - cached.timestamp < cacheDuration) {
+    return cached.text ? trimToTokenBudget(cached.text, maxTokens) : null;
+  }
+
+  let text: string | null = null;
+  let transient = false;
+  try {
+    const repo = parseGitHubRepo(item.url);
+    text = repo ? await fetchReadme(repo.owner, repo.repo) : await fetchArticle(item.url);
+  } catch (error) {
+    transient = true;
+    logger.warn(`[ContentExtractor] Failed to extract ${item.url}:`, error);
+  }
+
+  // 失败结果也缓存，避免反复下载无法解析的页面；临时失败只缓存 ARTICLE_RETRY_DURATION
+  await saveCache(cacheKey, {
+    text: text ? text.slice(0, MAX_CACHED_CHARS) : '',
+    timestamp: Date.now(),
+    transient: transient || undefined,
+  });
+
+  return text ? trimToTokenBudget(text, maxTokens) : null;
+}
@@ -2,10 +2,18 @@
  *   Copyright (c) 2025
  *   All rights reserved.
  */
-import { FeedItem, SourceConfig } from '../types/index.ts';
-import { SourceRegistry, SourceFetchOptions } from '../sources/index.ts';
-import { getCache, saveCache, updateLastUpdate, saveFeeds } from './storage.ts';
+import { FeedItem, FeedRule, SourceConfig } from '../types/index.ts';
+import {
+  SourceRegistry, SourceFetchOptions, HttpValidators, SourceResponseInfo, NotModifiedError, SourceHttpError,
+} from '../sources/index.ts';
+import {
+  getCache, saveCache, getFeeds, updateLastUpdate, saveFeeds, saveSourceHealth, SourceHealth,
+} from './storage.ts';
 import { logger } from '../utils/logger.ts';
+import { dedupeItems } from './dedupService.ts';
+import { rankItems } from './rankingService.ts';
+import { applyRules } from './rulesService.ts';
+import { hashString } from '../utils/hash.ts';
 
 // Cache duration: 30 minutes
 const CACHE_DURATION = 30 * 60 * 1000;
@@ -28,17 +36,38 @@ function mapSourceConfigToOptions(
 ): SourceFetchOptions {
   const baseOptions: SourceFetchOptions = {
     count: source.fetchCount,
+    instanceId: source.id,
   };
 
   // Handle source-specific options
-  if (source.type === 'HackerNews' && source.minScore) {
-    (baseOptions as any).minScore = source.minScore;
+  if (source.type === 'HackerNews') {
+    // 0 is a valid threshold (new/ask/show/job feeds); only unset falls back to the source default
+    if (source.minScore !== undefined) {
+      baseOptions.minScore = source.minScore;
+    }
+    baseOptions.feed = source.hnFeed;
+    baseOptions.query = source.hnQuery;
   }
 
   if (source.type === 'ArXiv') {
-    // Default ArXiv query can be overridden via custom config
-    (baseOptions as any).query =
-      'cat:cs.AI OR cat:cs.LG OR cat:cs.CL';
+    // Raw query wins over categories + keywords; ArXivSource falls back to its default query
+    baseOptions.query = source.arxivQuery;
+    baseOptions.categories = source.arxivCategories;
+    baseOptions.keywords = source.arxivKeywords;
+  }
+
+  if (source.type === 'GitHub') {
+    baseOptions.since = source.githubSince;
+    baseOptions.languages = source.githubLanguages;
+    baseOptions.spokenLanguage = source.githubSpokenLanguage;
+  }
+
+  if (source.type === 'Reddit') {
+    baseOptions.subreddits = source.subreddits;
+    baseOptions.sort = source.redditSort;
+    baseOptions.timeWindow = source.redditTimeWindow;
+    baseOptions.flairs = source.redditFlairs;
+    baseOptions.minScore = source.minScore;
   }
 
   if (source.type === 'RSS' && source.url) {
@@ -53,8 +82,10 @@ function mapSourceConfigToOptions(
 /**
  * Fetch data from all enabled sources
  * Uses the new SourceRegistry instead of switch-case
+ * Hide rules are not applied here: hidden items stay stored (and archived) so removing
+ * a rule brings them back; readers filter them with applyRules
  */
-export async function fetchAllData(sources: SourceConfig[]): Promise<FeedItem[]> {
+export async function fetchAllData(sources: SourceConfig[], rules: FeedRule[] = []): Promise<FeedItem[]> {
   const enabledSources = sources.filter((s) => s.enabled);
 
   const results = await Promise.allSettled(
@@ -62,13 +93,19 @@ export async function fetchAllData(sources: SourceConfig[]): Promise<FeedItem[]>
   );
 
   const allItems: FeedItem[] = [];
+  const healthEntries: SourceHealth[] = [];
 
   results.forEach((result, index) => {
     if (result.status === 'fulfilled' && result.value) {
-      // Attach isPinned property from source config to items
+      if (result.value.health) {
+        healthEntries.push(result.value.health);
+      }
+
+      // Attach source id and isPinned property from source config to items
       const source = enabledSources[index];
-      const items = result.value.map(item => ({
+      const items = result.value.items.map(item => ({
         ...item,
+        sourceId: source.id,
         isPinned: source.isPinned
       }));
       allItems.push(...items);
@@ -77,67 +114,197 @@ export async function fetchAllData(sources: SourceConfig[]): Promise<FeedItem[]>
     }
   });
 
-  // Sort by pinned (true first) then published date (most recent first)
-  return allItems.sort((a, b) => {
-    // 1. Sort by pinned status (pinned items first)
-    if (a.isPinned !== b.isPinned) {
-      return (a.isPinned ? -1 : 1);
-    }
+  // Persist health once per refresh to avoid concurrent read-modify-write
+  await saveSourceHealth(healthEntries);
 
-    // 2. Sort by published date
-    const dateA = a.publishedAt instanceof Date ? a.publishedAt : new Date(a.publishedAt || 0);
-    const dateB = b.publishedAt instanceof Date ? b.publishedAt : new Date(b.publishedAt || 0);
-    return (dateB?.getTime() || 0) - (dateA?.getTime() || 0);
-  });
+  // Merge the same story reported by several sources (keeping the IDs merged stories had last time),
+  // then mark highlight/boost rules
+  // Stored order is pinned first, rule boost, then newest; the sidebar re-ranks by the chosen mode
+  const markingRules = rules.filter(rule => rule.action !== 'hide');
+  const merged = dedupeItems(allItems, await getFeeds());
+  return rankItems(applyRules(merged, markingRules), 'newest');
+}
+
+/**
+ * Cached items of a single source (`cache_${source.id}`)
+ * Validators are stored with the items they describe, and `configHash` ties both to the
+ * source settings they were fetched with (filters such as minScore or timeRange run after the request)
+ */
+interface SourceCache {
+  items: FeedItem[];
+  timestamp: number;
+  validators?: HttpValidators;
+  configHash?: string;
+}
+
+/**
+ * Result of fetching a single source
+ * `health` is omitted when items were served from a fresh cache without a request
+ */
+interface SourceFetchResult {
+  items: FeedItem[];
+  health?: SourceHealth;
+}
+
+/**
+ * Fetch a source through the registry and measure the outcome
+ * Errors are rethrown by the source (throwOnError) so they can be recorded
+ */
+async function fetchWithHealth(
+  source: SourceConfig,
+  options: SourceFetchOptions
+): Promise<{ items?: FeedItem[]; validators?: HttpValidators; health: SourceHealth; error?: unknown }> {
+  const sourceName = source.type === 'RSS' ? 'RSS' : source.type;
+  const startedAt = Date.now();
+  // First successful response of this fetch (the listing request)
+  let response: SourceResponseInfo | undefined;
+
+  try {
+    const items = await SourceRegistry.fetchFrom(sourceName, {
+      ...options,
+      throwOnError: true,
+      onResponse: (info) => {
+        response ??= info;
+      },
+    });
+    const now = Date.now();
+    return {
+      items,
+      validators: response?.validators,
+      health: {
+        sourceId: source.id,
+        status: 'ok',
+        checkedAt: now,
+        lastSuccess: now,
+        httpStatus: response?.status,
+        itemCount: items.length,
+        durationMs: now - startedAt,
+      },
+    };
+  } catch (error) {
+    const now = Date.now();
+    if (error instanceof NotModifiedError) {
+      return {
+        error,
+        health: {
+          sourceId: source.id,
+          status: 'not_modified',
+          checkedAt: now,
+          lastSuccess: now,
+          httpStatus: 304,
+          itemCount: 0,
+          durationMs: now - startedAt,
+        },
+      };
+    }
+    return {
+      error,
+      health: {
+        sourceId: source.id,
+        status: 'error',
+        checkedAt: now,
+        lastError: error instanceof Error ? error.message : String(error),
+        lastErrorAt: now,
+        httpStatus: error instanceof SourceHttpError ? error.status : undefined,
+        itemCount: 0,
+        durationMs: now - startedAt,
+      },
+    };
+  }
 }
 
 /**
  * Fetch data from a specific source type
  * Uses SourceRegistry to get and execute the source
  */
-async function fetchDataByType(source: SourceConfig): Promise<FeedItem[]> {
+async function fetchDataByType(source: SourceConfig): Promise<SourceFetchResult> {
   const cacheKey = `cache_${source.id || source.type}`;
-  const cachedData = await getCache(cacheKey);
+  const cachedData: SourceCache | undefined = await getCache(cacheKey);
+
+  // Map config to options; cached items fetched with different settings are not reused
+  const options = mapSourceConfigToOptions(source);
+  const configHash = hashString(JSON.stringify(options));
+  const cacheMatchesConfig = cachedData?.configHash === configHash;
 
   // Check if cache is still valid (skip if forceRefresh is set)
-  if (!forceRefresh && cachedData && Date.now() - cachedData.timestamp < CACHE_DURATION) {
-    return cachedData.items;
+  if (!forceRefresh && cachedData && cacheMatchesConfig && Date.now() - cachedData.timestamp < CACHE_DURATION) {
+    return { items: cachedData.items };
   }
 
-  try {
-    // Map source type to registry name
-    const sourceName = source.type === 'RSS' ? 'RSS' : source.type;
+  // Map source type to registry name
+  const sourceName = source.type === 'RSS' ? 'RSS' : source.type;
 
-    // Check if source is registered
-    if (!SourceRegistry.has(sourceName)) {
-      logger.warn(`Source ${sourceName} not found in registry`);
-      return cachedData?.items || [];
-    }
+  // Check if source is registered
+  if (!SourceRegistry.has(sourceName)) {
+    logger.warn(`Source ${sourceName} not found in registry`);
+    return { items: cachedData?.items || [] };
+  }
 
-    // Map config to options
-    const options = mapSourceConfigToOptions(source);
+  // Only send conditional requests when there are cached items for the same settings to fall back on
+  if (cacheMatchesConfig && cachedData?.items?.length) {
+    options.conditional = true;
+    options.validators = cachedData.validators;
+  }
 
-    // Fetch from registry
-    const items = await SourceRegistry.fetchFrom(sourceName, options);
+  const { items, validators, health, error } = await fetchWithHealth(source, options);
 
-    // Cache the results
+  if (items) {
+    // Stamp items with the fetch time; cached and 304 responses keep it, so the archive
+    // only records a new score snapshot when the data was actually fetched again
+    const fetchedAt = Date.now();
+    const fetchedItems = items.map(item => ({ ...item, fetchedAt }));
+    // Cache the results together with the validators that describe them
     await saveCache(cacheKey, {
-      items,
-      timestamp: Date.now(),
-    });
+      items: fetchedItems,
+      timestamp: fetchedAt,
+      validators,
+      configHash,
+    } satisfies SourceCache);
+    return { items: fetchedItems, health };
+  }
 
-    return items;
-  } catch (error) {
-    logger.error(`Error fetching ${source.type}:`, error);
-    return cachedData?.items || [];
+  // 304 Not Modified: reuse cached items and restart the cache window
+  if (error instanceof NotModifiedError && cachedData?.items) {
+    await saveCache(cacheKey, {
+      ...cachedData,
+      timestamp: Date.now(),
+    } satisfies SourceCache);
+    return { items: cachedData.items, health: { ...health, itemCount: cachedData.items.length } };
   }
+
+  logger.error(`Error fetching ${source.type}:`, error);
+  return { items: cachedData?.items || [], health };
+}
+
+/**
+ * Fetch a single source immediately, bypassing cache and conditional requests
+ * Used by the Options health tab; records the outcome and leaves the cache untouched.
+ * Validators from the response are discarded: they are only stored together with cached items,
+ * so the next refresh cannot get a 304 for items it never cached
+ */
+export async function testSourceFetch(source: SourceConfig): Promise<SourceHealth> {
+  const sourceName = source.type === 'RSS' ? 'RSS' : source.type;
+  const health: SourceHealth = SourceRegistry.has(sourceName)
+    ? (await fetchWithHealth(source, mapSourceConfigToOptions(source))).health
+    : {
+        sourceId: source.id,
+        status: 'error',
+        checkedAt: Date.now(),
+        lastError: `Source ${sourceName} not found in registry`,
+        lastErrorAt: Date.now(),
+        itemCount: 0,
+        durationMs: 0,
+      };
+
+  await saveSourceHealth([health]);
+  return health;
 }
 
 /**
  * Trigger background refresh
  */
-export async function triggerRefresh(sources: SourceConfig[]): Promise<void> {
-  const items = await fetchAllData(sources);
+export async function triggerRefresh(sources: SourceConfig[], rules: FeedRule[] = []): Promise<void> {
+  const items = await fetchAllData(sources, rules);
 
   await saveFeeds(items);
   await updateLastUpdate();
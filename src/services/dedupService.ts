@@ -0,0 +1,196 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * 跨数据源去重服务
+ * 同一条新闻常同时出现在 Hacker News、Reddit 和 RSS 博客中。
+ * 按归一化 URL 和标题相似度识别重复条目，合并为一条并保留所有来源。
+ * 合并后的 ID 沿用上次刷新时的 ID，来源加入或离开合并组时阅读状态、收藏和历史记录不会丢失。
+ */
+
+import { FeedItem, MergedSource, SourceType } from '../types/index.ts';
+import { tokenizeTitle } from '../utils/tokenize.ts';
+
+// 视为跟踪参数的查询参数（utm_* 另行匹配）
+const TRACKING_PARAMS = new Set(['fbclid', 'gclid', 'ref', 'ref_src']);
+
+// 讨论页域名：合并时优先选用指向原文的条目作为主条目
+const DISCUSSION_HOSTS = ['news.ycombinator.com', 'reddit.com'];
+
+// 标题相似度阈值与最少词数（词太少的标题容易误判）
+const TITLE_SIMILARITY_THRESHOLD = 0.8;
+const MIN_TITLE_TOKENS = 4;
+
+/**
+ * URL 归一化：忽略协议、www.、跟踪参数、hash 与末尾斜杠
+ * 无法解析时返回去空白的小写原文
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '');
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !key.toLowerCase().startsWith('utm_') && !TRACKING_PARAMS.has(key.toLowerCase()))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+    return `${host}${path}${query}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+// 标题词集合（与兴趣模型共用分词）
+function titleTokens(title: string): Set<string> {
+  return new Set(tokenizeTitle(title));
+}
+
+// 词集合 Jaccard 系数
+function jaccard(tokensA: Set<string>, tokensB: Set<string>): number {
+  if (tokensA.size < MIN_TITLE_TOKENS || tokensB.size < MIN_TITLE_TOKENS) {
+    return 0;
+  }
+
+  let intersection = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) intersection++;
+  });
+  return intersection / (tokensA.size + tokensB.size - intersection);
+}
+
+/**
+ * 标题相似度（词集合 Jaccard 系数，0~1）
+ */
+export function titleSimilarity(a: string, b: string): number {
+  return jaccard(titleTokens(a), titleTokens(b));
+}
+
+function isDiscussionUrl(url: string): boolean {
+  try {
+    const host = new URL(url).hostname.replace(/^www\./, '');
+    return DISCUSSION_HOSTS.some(h => host === h || host.endsWith(`.${h}`));
+  } catch {
+    return false;
+  }
+}
+
+function toMergedSource(item: FeedItem): MergedSource {
+  return {
+    itemId: item.id,
+    source: item.source,
+    sourceName: item.sourceName,
+    sourceId: item.sourceId,
+    url: item.url,
+    commentsUrl: item.commentsUrl,
+    score: item.score,
+    commentCount: item.commentCount,
+    upvotes: item.upvotes,
+  };
+}
+
+// 主条目：优先选用指向原文的条目
+function pickPrimary(group: FeedItem[]): FeedItem {
+  return group.find(item => !isDiscussionUrl(item.url)) ?? group[0];
+}
+
+// 合并一组重复条目，id 为沿用的上次 ID（没有时使用主条目的 ID）
+function mergeGroup(group: FeedItem[], id?: string): FeedItem {
+  if (group.length === 1) {
+    const [item] = group;
+    // 沿用其他来源的 ID 时保留来源记录，下次刷新仍能对应回来
+    return id && id !== item.id ? { ...item, id, mergedSources: [toMergedSource(item)] } : item;
+  }
+
+  const primary = pickPrimary(group);
+  const sum = (values: (number | undefined)[]) => {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.length > 0 ? defined.reduce((a, b) => a + b, 0) : undefined;
+  };
+
+  const tags = Array.from(new Set(group.flatMap(item => item.tags ?? [])));
+
+  return {
+    ...primary,
+    id: id ?? primary.id,
+    summary: primary.summary || group.find(item => item.summary)?.summary,
+    tags: tags.length > 0 ? tags : undefined,
+    score: sum(group.map(item => item.score)),
+    commentCount: sum(group.map(item => item.commentCount)),
+    isPinned: group.some(item => item.isPinned),
+    // 合并后的分数来自多个来源，任一来源重新抓取都算作新数据
+    fetchedAt: Math.max(...group.map(item => item.fetchedAt ?? 0)) || undefined,
+    mergedSources: group.map(toMergedSource),
+  };
+}
+
+// 各来源条目 ID -> 上次刷新时显示的 ID
+function getPreviousIds(previousItems: FeedItem[]): Map<string, string> {
+  const previousIds = new Map<string, string>();
+  previousItems.forEach(item => {
+    previousIds.set(item.id, item.id);
+    item.mergedSources?.forEach(merged => previousIds.set(merged.itemId, item.id));
+  });
+  return previousIds;
+}
+
+/**
+ * 合并跨来源重复条目，保持首次出现的顺序
+ * 同一来源实例内的条目不做标题比较，避免误合并系列文章
+ * @param previousItems 上次刷新存储的条目，用于沿用合并条目的 ID
+ */
+export function dedupeItems(items: FeedItem[], previousItems: FeedItem[] = []): FeedItem[] {
+  const groups: FeedItem[][] = [];
+  const groupByUrl = new Map<string, number>();
+  const tokensById = new Map(items.map(item => [item.id, titleTokens(item.title)]));
+
+  items.forEach(item => {
+    const tokens = tokensById.get(item.id)!;
+    const urlKey = normalizeUrl(item.url);
+    let groupIndex = groupByUrl.get(urlKey);
+
+    if (groupIndex === undefined) {
+      groupIndex = groups.findIndex(group =>
+        group.every(existing => existing.sourceId !== item.sourceId) &&
+        group.some(existing => jaccard(tokensById.get(existing.id)!, tokens) >= TITLE_SIMILARITY_THRESHOLD)
+      );
+    }
+
+    if (groupIndex === undefined || groupIndex === -1) {
+      groups.push([item]);
+      groupIndex = groups.length - 1;
+    } else {
+      groups[groupIndex].push(item);
+    }
+    groupByUrl.set(urlKey, groupIndex);
+  });
+
+  // 沿用组内条目上次显示的 ID；仍在本次条目中的 ID 只能由包含它的组使用，避免两组得到同一 ID
+  const previousIds = getPreviousIds(previousItems);
+  const currentIds = new Set(items.map(item => item.id));
+  const usedIds = new Set<string>();
+
+  return groups.map(group => {
+    const primary = pickPrimary(group);
+    const memberIds = new Set(group.map(item => item.id));
+    const id = [primary, ...group]
+      .map(item => previousIds.get(item.id))
+      .find((previousId): previousId is string =>
+        !!previousId && !usedIds.has(previousId) && (memberIds.has(previousId) || !currentIds.has(previousId))
+      );
+    if (id) usedIds.add(id);
+    return mergeGroup(group, id);
+  });
+}
+
+/**
+ * 条目涉及的所有来源类型（合并条目返回全部来源）
+ */
+export function getItemSources(item: FeedItem): SourceType[] {
+  return item.mergedSources
+    ? Array.from(new Set(item.mergedSources.map(s => s.source)))
+    : [item.source];
+}
@@ -0,0 +1,179 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * 语义搜索服务
+ * 通过服务商的向量接口为条目计算向量，按条目 ID 保存在 IndexedDB；
+ * 查询时按余弦相似度排序，并与关键词匹配混合打分。
+ * 收藏条目的向量不会过期，几个月后仍能按含义找回。
+ */
+
+import { FeedItem } from '../types/index.ts';
+import { createEmbeddings } from './aiService.ts';
+import { tokenizeTitle } from '../utils/tokenize.ts';
+import { openDatabase, idbGetAll, idbPutMany, idbDeleteMany } from '../utils/idb.ts';
+import { hashString } from '../utils/hash.ts';
+import { logger } from '../utils/logger.ts';
+
+const DB_NAME = 'infotrend_embeddings';
+const DB_VERSION = 1;
+const STORE_NAME = 'vectors';
+
+// 每次请求计算的文本数
+const EMBEDDING_BATCH_SIZE = 32;
+// 参与计算向量的文本长度上限
+const MAX_EMBEDDING_CHARS = 2000;
+// 不在当前信息流和收藏中的向量保留天数
+const EMBEDDING_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+// 混合打分：语义相似度（归一化后）与关键词匹配的权重
+const SEMANTIC_WEIGHT = 0.7;
+const KEYWORD_WEIGHT = 0.3;
+// 混合分低于该值的条目不作为结果（完全匹配关键词的条目始终保留）
+const MIN_BLENDED_SCORE = 0.5;
+const MAX_RESULTS = 50;
+
+// IndexedDB 中的向量记录
+interface EmbeddingRecord {
+  id: string; // 条目 ID
+  model: string; // 计算向量的模型，切换模型后需要重新计算
+  textHash: string; // 文本变化（如补充了 AI 摘要）后需要重新计算
+  vector: Float32Array;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+// 参与计算向量的文本：标题、摘要和标签
+function getItemText(item: FeedItem): string {
+  return [item.title, item.aiSummary || item.summary, item.tags?.join(', ')]
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_EMBEDDING_CHARS);
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// 关键词匹配分：整句包含为 1，否则为命中的查询词比例
+function keywordScore(item: FeedItem, query: string, queryTokens: string[]): number {
+  const text = [item.title, item.summary, item.aiSummary, ...(item.tags || [])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  if (text.includes(query.toLowerCase())) return 1;
+  if (queryTokens.length === 0) return 0;
+  const itemTokens = new Set(tokenizeTitle(text));
+  return queryTokens.filter(token => itemTokens.has(token)).length / queryTokens.length;
+}
+
+/**
+ * 为缺少向量（或文本、模型已变化）的条目计算并保存向量
+ */
+async function ensureEmbeddings(items: FeedItem[], model: string): Promise<Map<string, EmbeddingRecord>> {
+  const db = await getDatabase();
+  const records = new Map((await idbGetAll<EmbeddingRecord>(db, STORE_NAME)).map(record => [record.id, record]));
+
+  const missing = items
+    .map(item => ({ item, text: getItemText(item) }))
+    .map(entry => ({ ...entry, textHash: hashString(entry.text) }))
+    .filter(({ item, textHash }) => {
+      const record = records.get(item.id);
+      return !record || record.model !== model || record.textHash !== textHash;
+    });
+
+  for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const result = await createEmbeddings(batch.map(entry => entry.text));
+    const now = Date.now();
+    const computed: EmbeddingRecord[] = batch.map((entry, index) => ({
+      id: entry.item.id,
+      model: result.model,
+      textHash: entry.textHash,
+      vector: Float32Array.from(result.vectors[index]),
+      updatedAt: now,
+    }));
+    await idbPutMany(db, STORE_NAME, computed);
+    computed.forEach(record => records.set(record.id, record));
+  }
+
+  if (missing.length > 0) {
+    logger.info(`[Embeddings] Computed ${missing.length} vectors with ${model}`);
+  }
+  return records;
+}
+
+/**
+ * 语义搜索：返回匹配条目的 ID 及混合分（按分数从高到低）
+ * 向量按候选集内的最小/最大相似度归一化，避免不同模型的相似度量纲差异
+ */
+export async function semanticSearch(query: string, items: FeedItem[]): Promise<Map<string, number>> {
+  const trimmed = query.trim();
+  if (!trimmed || items.length === 0) return new Map();
+
+  const { model, vectors: [queryVector] } = await createEmbeddings([trimmed]);
+  const records = await ensureEmbeddings(items, model);
+  const queryTokens = tokenizeTitle(trimmed);
+
+  const similarities = items.map(item => {
+    const record = records.get(item.id);
+    return record && record.model === model ? cosineSimilarity(queryVector, record.vector) : 0;
+  });
+  const min = Math.min(...similarities);
+  const max = Math.max(...similarities);
+  const range = max - min || 1;
+
+  const scored = items
+    .map((item, index) => {
+      const keyword = keywordScore(item, trimmed, queryTokens);
+      const semantic = (similarities[index] - min) / range;
+      return { id: item.id, keyword, score: SEMANTIC_WEIGHT * semantic + KEYWORD_WEIGHT * keyword };
+    })
+    .filter(entry => entry.score >= MIN_BLENDED_SCORE || entry.keyword === 1)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS);
+
+  return new Map(scored.map(entry => [entry.id, entry.score]));
+}
+
+/**
+ * 清理过期向量：保留指定条目（当前信息流和收藏），其余超过保留期的删除
+ */
+export async function pruneEmbeddings(keepIds: Iterable<string>): Promise<void> {
+  const keep = new Set(keepIds);
+  const db = await getDatabase();
+  const cutoff = Date.now() - EMBEDDING_RETENTION;
+  const expired = (await idbGetAll<EmbeddingRecord>(db, STORE_NAME))
+    .filter(record => !keep.has(record.id) && record.updatedAt < cutoff)
+    .map(record => record.id);
+  await idbDeleteMany(db, STORE_NAME, expired);
+  if (expired.length > 0) {
+    logger.info(`[Embeddings] Pruned ${expired.length} expired vectors`);
+  }
+}
@@ -0,0 +1,49 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * 收藏存储
+ * favoriteStore（侧边栏）和后台（规则自动收藏、条目 ID 迁移）共用的收藏读写入口。
+ * 后台写入后，已打开页面中的 favoriteStore 通过 onFavoritesChanged 重新加载，
+ * 避免之后用内存中的旧数据覆盖后台的修改。
+ */
+
+import { FavoriteItem } from '../types/favorite';
+import { safeStorageGet, safeStorageSet } from '../utils/chrome.ts';
+
+// 收藏存储键名
+export const FAVORITES_KEY = 'favorites';
+
+/**
+ * 读取全部收藏
+ */
+export async function loadFavorites(): Promise<FavoriteItem[]> {
+  const result = await safeStorageGet([FAVORITES_KEY]);
+  return Array.isArray(result[FAVORITES_KEY]) ? result[FAVORITES_KEY] : [];
+}
+
+/**
+ * 整体保存收藏
+ */
+export async function saveFavorites(favorites: FavoriteItem[]): Promise<void> {
+  await safeStorageSet({ [FAVORITES_KEY]: favorites });
+}
+
+/**
+ * 监听收藏变化（包括其他页面和后台的写入）
+ * @returns 取消监听
+ */
+export function onFavoritesChanged(listener: (favorites: FavoriteItem[]) => void): () => void {
+  if (typeof chrome === 'undefined' || !chrome.storage?.onChanged) return () => {};
+
+  const handler = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName === 'local' && changes[FAVORITES_KEY]) {
+      const favorites = changes[FAVORITES_KEY].newValue;
+      listener(Array.isArray(favorites) ? favorites : []);
+    }
+  };
+  chrome.storage.onChanged.addListener(handler);
+  return () => chrome.storage.onChanged.removeListener(handler);
+}
@@ -0,0 +1,102 @@
+/*
+ *   Copyright (c) 2025 InfoTrend Contributors
+ *   All rights reserved.
+ */
+
+/**
+ * 条目 ID 迁移服务
+ * 旧版本的 RSS / Product Hunt 条目 ID 依赖列表位置或抓取时间，每次刷新都会变化；
+ * 内置源支持多实例后，条目 ID 也加入了实例前缀。
+ * 刷新时按 URL 把旧 ID 对应到新的稳定 ID，并迁移收藏和 AI 摘要缓存。
+ */
+
+import { FeedItem } from '../types/index.ts';
+import { getCache, saveCache, removeCache } from './storage.ts';
+import { loadFavorites, saveFavorites } from './favoritesStorage.ts';
+import { SUMMARY_CACHE_PREFIX } from './aiService.ts';
+import { logger } from '../utils/logger.ts';
+
+// 旧版不稳定 ID 格式
+const LEGACY_ID_PATTERNS: RegExp[] = [
+  /^rss-[a-z]+:\/\/.+-\d+$/i, // rss-${feedUrl}-${index}
+  /^producthunt-\d+-\d{13}$/, // producthunt-${index}-${Date.now()}
+  /^arxiv-[\w.]+$/, // arxiv-${arxivId}（无实例前缀）
+  /^reddit-[a-z0-9]+$/, // reddit-${postId}（无实例前缀）
+  /^hackernews-\d+$/, // hackernews-${itemId}（无实例前缀）
+  /^github-(?!github-)/, // github-${owner}-${repo}（无实例前缀；实例 ID 均为 github-*）
+];
+
+/**
+ * 是否为旧版不稳定 ID
+ */
+export function isLegacyItemId(id: string): boolean {
+  return LEGACY_ID_PATTERNS.some(pattern => pattern.test(id));
+}
+
+/**
+ * 将旧版 ID 上的收藏和摘要缓存迁移到新 ID
+ * @param previousItems 刷新前存储的条目
+ * @param freshItems 本次刷新获取的条目
+ * @returns 迁移的 ID 数量
+ */
+export async function migrateLegacyItemIds(
+  previousItems: FeedItem[],
+  freshItems: FeedItem[]
+): Promise<number> {
+  // URL -> 新 ID
+  const idsByUrl = new Map<string, string>();
+  freshItems.forEach(item => {
+    if (item.url && !isLegacyItemId(item.id)) {
+      idsByUrl.set(item.url, item.id);
+    }
+  });
+
+  const favorites = await loadFavorites();
+
+  // 旧 ID -> 新 ID
+  const idMap = new Map<string, string>();
+  const collect = (id: string, url?: string) => {
+    if (!url || idMap.has(id) || !isLegacyItemId(id)) return;
+    const newId = idsByUrl.get(url);
+    if (newId && newId !== id) {
+      idMap.set(id, newId);
+    }
+  };
+  previousItems.forEach(item => collect(item.id, item.url));
+  favorites.forEach(favorite => collect(favorite.id, favorite.snapshot?.url));
+
+  if (idMap.size === 0) {
+    return 0;
+  }
+
+  // 迁移收藏
+  const favoriteIds = new Set(favorites.map(favorite => favorite.id));
+  let favoritesChanged = false;
+  const migratedFavorites = favorites.flatMap(favorite => {
+    const newId = idMap.get(favorite.id);
+    if (!newId) return [favorite];
+    favoritesChanged = true;
+    // 新 ID 已被收藏时丢弃旧记录
+    return favoriteIds.has(newId) ? [] : [{ ...favorite, id: newId }];
+  });
+  // 通过共享的收藏存储写入，已打开的侧边栏会重新加载，不会再用旧 ID 覆盖
+  if (favoritesChanged) {
+    await saveFavorites(migratedFavorites);
+  }
+
+  // 迁移 AI 摘要缓存
+  for (const [oldId, newId] of idMap) {
+    const oldKey = `${SUMMARY_CACHE_PREFIX}${oldId}`;
+    const cached = await getCache(oldKey);
+    if (!cached) continue;
+
+    const newKey = `${SUMMARY_CACHE_PREFIX}${newId}`;
+    if (!(await getCache(newKey))) {
+      await saveCache(newKey, cached);
+    }
+    await removeCache(oldKey);
+  }
+
+  logger.info(`[IdMigration] Migrated ${idMap.size} legacy item IDs`);
+  return idMap.size;
+}
@@ -0,0 +1,389 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * IndexedDB 存储层
+ * feed 条目、数据源缓存、正文缓存和 AI 产物（摘要、标签）保存在 IndexedDB 中，
+ * 不再占用 chrome.storage.local 的 10MB 配额。
+ * 缓存记录带过期时间和最近访问时间：过期记录定期清理，超出容量上限时按 LRU 淘汰。
+ * 首次使用时把 chrome.storage.local 中的旧数据一次性迁移过来。
+ */
+
+import { FeedItem } from '../types/index.ts';
+import {
+  openDatabase, requestToPromise, transactionDone, idbGet, idbGetAll, idbPutMany, idbDeleteMany,
+} from '../utils/idb.ts';
+import {
+  safeStorageGet, safeStorageSet, safeStorageRemove, safeStorageGetAll, safeStorageBytesInUse,
+} from '../utils/chrome.ts';
+import { logger } from '../utils/logger.ts';
+
+const DB_NAME = 'infotrend_storage';
+const DB_VERSION = 1;
+
+const ITEMS_STORE = 'items';
+type CacheStoreName = 'caches' | 'ai';
+
+const DAY = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+// 按键名前缀决定保存位置和有效期，未列出的键仍保存在 chrome.storage.local
+// 前缀与 dataFetcher、contentExtractor、aiService 中的缓存键保持一致
+const CACHE_POLICIES: { prefix: string; store: CacheStoreName; ttl: number }[] = [
+  { prefix: 'cache_', store: 'caches', ttl: 7 * DAY },        // 数据源抓取结果（抓取失败时作为回退）
+  { prefix: 'article_text_', store: 'caches', ttl: 3 * DAY }, // 文章正文
+  { prefix: 'ai_summary_', store: 'ai', ttl: 7 * DAY },       // AI 摘要
+  { prefix: 'ai_tags_', store: 'ai', ttl: 30 * DAY },         // AI 标签
+];
+
+// 各缓存存储的容量上限（按 JSON 长度估算）
+export const STORE_QUOTAS: Record<CacheStoreName, number> = {
+  caches: 30 * MB,
+  ai: 10 * MB,
+};
+// 超出上限时淘汰到上限的该比例，避免每次写入都触发淘汰
+const EVICTION_TARGET_RATIO = 0.8;
+// 读取时最近访问时间的更新间隔，避免每次读取都写库
+const ACCESS_UPDATE_INTERVAL = 60 * 60 * 1000;
+// 写入后自动维护的最小间隔
+const MAINTENANCE_INTERVAL = 60 * 60 * 1000;
+
+const MIGRATION_FLAG_KEY = 'infotrend_idb_migrated';
+const LEGACY_FEEDS_KEY = 'infotrend_feeds';
+// 旧版按 URL 保存的 HTTP 校验信息（现随数据源缓存一起保存），迁移时直接删除
+const LEGACY_VALIDATORS_PREFIX = 'http_validators_';
+
+// chrome.storage.local 的配额
+export const CHROME_STORAGE_QUOTA = 10 * MB;
+
+// 缓存记录
+interface CacheRecord {
+  key: string;
+  value: unknown;
+  size: number; // 估算字节数
+  createdAt: number;
+  lastAccess: number;
+  expiresAt: number;
+}
+
+// feed 条目记录，position 保存列表顺序
+interface ItemRecord {
+  id: string;
+  position: number;
+  item: FeedItem;
+}
+
+// 单个存储的用量
+export interface StoreUsage {
+  count: number;
+  bytes: number;
+  quota?: number;
+}
+
+// 存储用量（Options 页面展示）
+export interface StorageUsage {
+  chromeStorage: StoreUsage;
+  items: StoreUsage;
+  caches: StoreUsage;
+  ai: StoreUsage;
+}
+
+// 一次维护的结果
+export interface MaintenanceResult {
+  expired: number;
+  evicted: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let migrationPromise: Promise<void> | null = null;
+let lastMaintenance = 0;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+        db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+      }
+      for (const store of Object.keys(STORE_QUOTAS)) {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store, { keyPath: 'key' });
+        }
+      }
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+function getCachePolicy(key: string) {
+  return CACHE_POLICIES.find(policy => key.startsWith(policy.prefix));
+}
+
+function estimateSize(value: unknown): number {
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+function createCacheRecord(key: string, value: unknown, ttl: number, createdAt: number = Date.now()): CacheRecord {
+  const now = Date.now();
+  return { key, value, size: estimateSize(value) + key.length, createdAt, lastAccess: now, expiresAt: createdAt + ttl };
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+/**
+ * 该键是否由 IndexedDB 存储层管理
+ */
+export function isIndexedDBKey(key: string): boolean {
+  return !!getCachePolicy(key);
+}
+
+// ============================================================================
+// 迁移
+// ============================================================================
+
+async function runMigration(): Promise<void> {
+  const flag = await safeStorageGet([MIGRATION_FLAG_KEY]);
+  if (flag[MIGRATION_FLAG_KEY]) return;
+
+  const db = await getDatabase();
+  const all = await safeStorageGetAll();
+  const migratedKeys: string[] = [];
+
+  // feed 条目：IndexedDB 中已有数据时（其他页面已迁移并写入新数据）不覆盖
+  const legacyFeeds = all[LEGACY_FEEDS_KEY];
+  if (Array.isArray(legacyFeeds)) {
+    const existing = await requestToPromise(db.transaction(ITEMS_STORE, 'readonly').objectStore(ITEMS_STORE).count());
+    if (existing === 0) {
+      await idbPutMany<ItemRecord>(db, ITEMS_STORE, (legacyFeeds as FeedItem[]).map((item, position) => ({ id: item.id, position, item })));
+    }
+    migratedKeys.push(LEGACY_FEEDS_KEY);
+  }
+
+  // 缓存：沿用原记录的 timestamp 作为创建时间，已过期的直接丢弃
+  const records: Record<CacheStoreName, CacheRecord[]> = { caches: [], ai: [] };
+  const now = Date.now();
+  for (const [key, value] of Object.entries(all)) {
+    if (key.startsWith(LEGACY_VALIDATORS_PREFIX)) {
+      migratedKeys.push(key);
+      continue;
+    }
+    const policy = getCachePolicy(key);
+    if (!policy) continue;
+    migratedKeys.push(key);
+    const timestamp = (value as { timestamp?: unknown } | null)?.timestamp;
+    const createdAt = typeof timestamp === 'number' ? timestamp : now;
+    if (createdAt + policy.ttl > now) {
+      records[policy.store].push(createCacheRecord(key, value, policy.ttl, createdAt));
+    }
+  }
+  for (const store of Object.keys(records) as CacheStoreName[]) {
+    await idbPutMany(db, store, records[store]);
+  }
+
+  await safeStorageRemove(migratedKeys);
+  await safeStorageSet({ [MIGRATION_FLAG_KEY]: now });
+  logger.info(`[IDBStorage] Migrated ${migratedKeys.length} keys from chrome.storage.local`);
+}
+
+/**
+ * 一次性迁移 chrome.storage.local 中的 feed 和缓存（每个页面/后台只检查一次）
+ */
+export function migrateLegacyStorage(): Promise<void> {
+  if (!migrationPromise) {
+    migrationPromise = runMigration().catch((error) => {
+      migrationPromise = null;
+      logger.error('[IDBStorage] Migration failed:', error);
+    });
+  }
+  return migrationPromise;
+}
+
+async function ready(): Promise<IDBDatabase> {
+  await migrateLegacyStorage();
+  return getDatabase();
+}
+
+// ============================================================================
+// feed 条目
+// ============================================================================
+
+/**
+ * 读取 feed 条目（保持保存时的顺序）
+ */
+export async function idbGetItems(): Promise<FeedItem[]> {
+  const db = await ready();
+  const records = await idbGetAll<ItemRecord>(db, ITEMS_STORE);
+  return records.sort((a, b) => a.position - b.position).map(record => record.item);
+}
+
+/**
+ * 用新的列表整体替换 feed 条目
+ */
+export async function idbSaveItems(items: FeedItem[]): Promise<void> {
+  const db = await ready();
+  const transaction = db.transaction(ITEMS_STORE, 'readwrite');
+  const store = transaction.objectStore(ITEMS_STORE);
+  store.clear();
+  items.forEach((item, position) => store.put({ id: item.id, position, item }));
+  await transactionDone(transaction);
+}
+
+// ============================================================================
+// 缓存
+// ============================================================================
+
+/**
+ * 读取缓存，过期记录视为不存在
+ */
+export async function idbGetCache(key: string): Promise<unknown> {
+  const policy = getCachePolicy(key);
+  if (!policy) return undefined;
+
+  const db = await ready();
+  const record = await idbGet<CacheRecord>(db, policy.store, key);
+  if (!record) return undefined;
+
+  const now = Date.now();
+  if (record.expiresAt <= now) {
+    await idbDeleteMany(db, policy.store, [key]);
+    return undefined;
+  }
+
+  // 更新最近访问时间（用于 LRU 淘汰）
+  if (now - record.lastAccess > ACCESS_UPDATE_INTERVAL) {
+    idbPutMany(db, policy.store, [{ ...record, lastAccess: now }]).catch((error) => {
+      logger.warn('[IDBStorage] Failed to update access time:', error);
+    });
+  }
+  return record.value;
+}
+
+/**
+ * 写入缓存；空间不足时先清理再重试一次，仍失败则记录错误（缓存写入失败不影响调用方）
+ */
+export async function idbSaveCache(key: string, value: unknown): Promise<void> {
+  const policy = getCachePolicy(key);
+  if (!policy) return;
+
+  const db = await ready();
+  const record = createCacheRecord(key, value, policy.ttl);
+  try {
+    await idbPutMany(db, policy.store, [record]);
+  } catch (error) {
+    if (!isQuotaError(error)) {
+      logger.error(`[IDBStorage] Failed to write ${key}:`, error);
+      return;
+    }
+    logger.warn('[IDBStorage] Storage quota exceeded, evicting and retrying');
+    await runStorageMaintenance(true);
+    try {
+      await idbPutMany(db, policy.store, [record]);
+    } catch (retryError) {
+      logger.error(`[IDBStorage] Failed to write ${key} after eviction:`, retryError);
+      return;
+    }
+  }
+
+  // 写入后定期维护，避免缓存无限增长
+  if (Date.now() - lastMaintenance > MAINTENANCE_INTERVAL) {
+    runStorageMaintenance().catch((error) => logger.warn('[IDBStorage] Maintenance failed:', error));
+  }
+}
+
+/**
+ * 删除缓存
+ */
+export async function idbRemoveCache(key: string): Promise<void> {
+  const policy = getCachePolicy(key);
+  if (!policy) return;
+  await idbDeleteMany(await ready(), policy.store, [key]);
+}
+
+// ============================================================================
+// 维护与用量
+// ============================================================================
+
+/**
+ * 清理过期记录，并在超出容量上限时按最近访问时间淘汰
+ * @param aggressive 写入空间不足时使用，淘汰到上限的一半
+ */
+export async function runStorageMaintenance(aggressive: boolean = false): Promise<MaintenanceResult> {
+  lastMaintenance = Date.now();
+  const db = await ready();
+  const now = Date.now();
+  const result: MaintenanceResult = { expired: 0, evicted: 0 };
+
+  for (const store of Object.keys(STORE_QUOTAS) as CacheStoreName[]) {
+    const records = await idbGetAll<CacheRecord>(db, store);
+    const expired = records.filter(record => record.expiresAt <= now);
+    const alive = records
+      .filter(record => record.expiresAt > now)
+      .sort((a, b) => a.lastAccess - b.lastAccess);
+
+    const quota = STORE_QUOTAS[store];
+    const target = quota * (aggressive ? 0.5 : EVICTION_TARGET_RATIO);
+    let total = alive.reduce((sum, record) => sum + record.size, 0);
+    const evicted: CacheRecord[] = [];
+    if (aggressive || total > quota) {
+      for (const record of alive) {
+        if (total <= target) break;
+        evicted.push(record);
+        total -= record.size;
+      }
+    }
+
+    await idbDeleteMany(db, store, [...expired, ...evicted].map(record => record.key));
+    result.expired += expired.length;
+    result.evicted += evicted.length;
+  }
+
+  if (result.expired || result.evicted) {
+    logger.info(`[IDBStorage] Maintenance removed ${result.expired} expired and ${result.evicted} evicted records`);
+  }
+  return result;
+}
+
+/**
+ * 各存储的用量
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const db = await ready();
+  const chromeBytes = await safeStorageBytesInUse();
+  const chromeCount = Object.keys(await safeStorageGetAll()).length;
+
+  const items = await idbGetAll<ItemRecord>(db, ITEMS_STORE);
+  const usage: StorageUsage = {
+    chromeStorage: { count: chromeCount, bytes: chromeBytes, quota: CHROME_STORAGE_QUOTA },
+    items: { count: items.length, bytes: estimateSize(items) },
+    caches: { count: 0, bytes: 0, quota: STORE_QUOTAS.caches },
+    ai: { count: 0, bytes: 0, quota: STORE_QUOTAS.ai },
+  };
+
+  for (const store of Object.keys(STORE_QUOTAS) as CacheStoreName[]) {
+    const records = await idbGetAll<CacheRecord>(db, store);
+    usage[store].count = records.length;
+    usage[store].bytes = records.reduce((sum, record) => sum + record.size, 0);
+  }
+  return usage;
+}
+
+/**
+ * 清空 IndexedDB 中的全部数据（“清除所有数据”时使用）
+ */
+export async function clearIndexedDBStorage(): Promise<void> {
+  const db = await getDatabase();
+  const stores = [ITEMS_STORE, ...Object.keys(STORE_QUOTAS)];
+  const transaction = db.transaction(stores, 'readwrite');
+  stores.forEach(store => transaction.objectStore(store).clear());
+  await transactionDone(transaction);
+}
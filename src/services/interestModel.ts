@@ -0,0 +1,113 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * 本地兴趣模型
+ * 从打开、收藏、忽略等交互中学习标题词、标签和来源的偏好（朴素贝叶斯式的正负计数），
+ * 为每个条目给出“为你推荐”分值。全部在本地计算，不依赖 LLM。
+ */
+
+import { FeedItem } from '../types/index.ts';
+import { InterestProfile, InterestSignal, InterestTermWeight } from '../types/interest';
+import { tokenizeTitle } from '../utils/tokenize.ts';
+
+// 各信号的权重，正值计入 positive，负值计入 negative
+const SIGNAL_WEIGHTS: Record<InterestSignal, number> = {
+  open: 1,
+  favorite: 3,
+  unfavorite: -1,
+  dismiss: -2,
+};
+
+// 画像最多保留的特征数，超出后淘汰总权重最低、最久未更新的特征
+const MAX_TERMS = 1500;
+// 特征达到该累计权重后视为完全可信
+const CONFIDENCE_WEIGHT = 3;
+
+export function createEmptyProfile(): InterestProfile {
+  return { terms: {}, interactions: 0, updatedAt: 0 };
+}
+
+/**
+ * 提取条目特征：标题词、tag:标签、source:来源
+ */
+export function extractFeatures(item: FeedItem): string[] {
+  const features = new Set(tokenizeTitle(item.title));
+  (item.tags ?? []).forEach(tag => features.add(`tag:${tag.toLowerCase()}`));
+  features.add(`source:${(item.sourceName || item.source).toLowerCase()}`);
+  return Array.from(features);
+}
+
+// 淘汰多余特征
+function pruneTerms(profile: InterestProfile): InterestProfile {
+  const entries = Object.entries(profile.terms);
+  if (entries.length <= MAX_TERMS) return profile;
+
+  const kept = entries
+    .sort(([, a], [, b]) =>
+      (b.positive + b.negative) - (a.positive + a.negative) || b.updatedAt - a.updatedAt
+    )
+    .slice(0, MAX_TERMS);
+  return { ...profile, terms: Object.fromEntries(kept) };
+}
+
+/**
+ * 学习一次交互，返回新的画像
+ */
+export function applySignal(profile: InterestProfile, item: FeedItem, signal: InterestSignal): InterestProfile {
+  const weight = SIGNAL_WEIGHTS[signal];
+  const now = Date.now();
+  const terms = { ...profile.terms };
+
+  extractFeatures(item).forEach(feature => {
+    const term = terms[feature] ?? { positive: 0, negative: 0, updatedAt: now };
+    terms[feature] = {
+      positive: term.positive + Math.max(0, weight),
+      negative: term.negative + Math.max(0, -weight),
+      updatedAt: now,
+    };
+  });
+
+  return pruneTerms({ terms, interactions: profile.interactions + 1, updatedAt: now });
+}
+
+// 特征权重：正负计数的平滑对数比，按累计次数折算可信度
+function termWeight(positive: number, negative: number): number {
+  const total = positive + negative;
+  const confidence = Math.min(1, total / CONFIDENCE_WEIGHT);
+  return Math.log((positive + 1) / (negative + 1)) * confidence;
+}
+
+/**
+ * 条目的“为你推荐”分值（-1~1，0 表示无偏好）
+ */
+export function scoreItem(profile: InterestProfile, item: FeedItem): number {
+  if (profile.interactions === 0) return 0;
+
+  const features = extractFeatures(item);
+  let sum = 0;
+  features.forEach(feature => {
+    const term = profile.terms[feature];
+    if (term) sum += termWeight(term.positive, term.negative);
+  });
+  return Math.tanh(sum / Math.sqrt(features.length));
+}
+
+/**
+ * 画像中最喜欢和最不喜欢的特征
+ */
+export function getTopTerms(profile: InterestProfile, limit = 20): { liked: InterestTermWeight[]; disliked: InterestTermWeight[] } {
+  const weights: InterestTermWeight[] = Object.entries(profile.terms).map(([term, value]) => ({
+    term,
+    weight: termWeight(value.positive, value.negative),
+    positive: value.positive,
+    negative: value.negative,
+  }));
+
+  return {
+    liked: weights.filter(w => w.weight > 0).sort((a, b) => b.weight - a.weight).slice(0, limit),
+    disliked: weights.filter(w => w.weight < 0).sort((a, b) => a.weight - b.weight).slice(0, limit),
+  };
+}
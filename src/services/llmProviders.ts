@@ -0,0 +1,521 @@
+/**
+ * LLM Provider 适配器
+ *
+ * aiService 通过统一的适配器接口调用不同厂商的 API：
+ * - OpenAI 兼容接口（/chat/completions + Bearer）
+ * - Anthropic Messages API（x-api-key + SSE 事件）
+ * - Google Gemini 原生接口（generateContent / streamGenerateContent）
+ * - Ollama 原生接口（/api/chat，流式为 NDJSON）
+ *
+ * 每个适配器同时提供模型列表接口（OpenAI/Anthropic 的 /models、Gemini 的 models、Ollama 的 /api/tags），
+ * 以及向量接口（Anthropic 没有向量接口，不支持语义搜索）
+ */
+
+import { LLMProvider, PromptTemplates } from '../types/index.ts';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export interface LLMConfig {
+  provider: LLMProvider;
+  apiKey: string;
+  model: string;
+  baseUrl: string; // 用户填写的 Base URL（已去掉末尾斜杠），为空时使用默认值
+  embeddingModel: string; // 语义搜索使用的向量模型
+  contextTokens: number; // 摘要时附带的正文 token 预算
+  promptTemplates?: PromptTemplates; // 自定义 prompt 模板
+}
+
+// 多轮对话中的一条消息
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+}
+
+// 非流式响应解析结果
+export interface LLMResult {
+  content: string | null;
+  tokens?: number; // 接口返回的总 token 数
+}
+
+// 流式响应中单行的解析结果（token 字段为截至当前的累计值）
+export interface LLMStreamChunk {
+  text?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ProviderAdapter {
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  buildRequest: (config: LLMConfig, request: LLMRequest, stream: boolean) => { url: string; init: RequestInit };
+  parseResponse: (data: unknown) => LLMResult;
+  // 解析流中的一行（SSE 的 data 行或 NDJSON 行），无内容时返回 null
+  parseStreamLine: (line: string) => LLMStreamChunk | null;
+  // 模型列表请求及解析（返回可用于 model 字段的模型 ID）
+  buildModelsRequest: (config: LLMConfig) => { url: string; init: RequestInit };
+  parseModels: (data: unknown) => string[];
+  // 向量接口，未实现的服务商不支持语义搜索
+  defaultEmbeddingModel?: string;
+  buildEmbeddingRequest?: (config: LLMConfig, inputs: string[]) => { url: string; init: RequestInit };
+  parseEmbeddings?: (data: unknown) => number[][];
+}
+
+// 各厂商响应中用到的字段
+// OpenAI 与 Anthropic 的 /models 响应结构相同
+interface ModelListPayload {
+  data?: { id?: string }[];
+}
+
+interface GeminiModelsPayload {
+  models?: { name?: string; supportedGenerationMethods?: string[] }[];
+}
+
+interface OllamaTagsPayload {
+  models?: { name?: string }[];
+}
+
+interface OpenAIEmbeddingPayload {
+  data?: { index?: number; embedding?: number[] }[];
+}
+
+interface GeminiEmbeddingPayload {
+  embeddings?: { values?: number[] }[];
+}
+
+interface OllamaEmbeddingPayload {
+  embeddings?: number[][];
+}
+
+interface OpenAIPayload {
+  choices?: { message?: { content?: string }; delta?: { content?: string } }[];
+  usage?: { total_tokens?: number };
+}
+
+interface AnthropicPayload {
+  type?: string;
+  content?: { type: string; text?: string }[];
+  delta?: { type?: string; text?: string };
+  message?: { usage?: { input_tokens?: number } };
+  usage?: { input_tokens?: number; output_tokens?: number };
+  error?: { message?: string };
+}
+
+interface GeminiPayload {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: { totalTokenCount?: number };
+}
+
+interface OllamaPayload {
+  message?: { content?: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+function trimTrailingSlashes(url: string): string {
+  let result = url.trim();
+  while (result.endsWith('/')) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
+
+function getBaseUrl(config: LLMConfig, adapter: ProviderAdapter): string {
+  return trimTrailingSlashes(config.baseUrl || adapter.defaultBaseUrl);
+}
+
+// 去重并排序模型 ID
+function uniqueSorted(ids: (string | undefined)[]): string[] {
+  return [...new Set(ids.filter((id): id is string => !!id))].sort();
+}
+
+function parseModelList(response: unknown): string[] {
+  const data = response as ModelListPayload;
+  return Array.isArray(data.data) ? uniqueSorted(data.data.map(model => model.id)) : [];
+}
+
+// 解析 SSE 的 data 行，[DONE] 或无法解析时返回 null
+function parseSSEData(line: string): unknown | null {
+  if (!line.startsWith('data:')) return null;
+  const payload = line.slice(5).trim();
+  if (!payload || payload === '[DONE]') return null;
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// 适配器
+// ============================================================================
+
+function openaiHeaders(config: LLMConfig): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${config.apiKey}`,
+  };
+}
+
+const openaiAdapter: ProviderAdapter = {
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  requiresApiKey: true,
+
+  buildRequest(config, request, stream) {
+    let url = getBaseUrl(config, openaiAdapter);
+    // 如果 baseUrl 已经以 /chat/completions 结尾，不再添加
+    if (!url.endsWith('/chat/completions')) {
+      url = `${url}/chat/completions`;
+    }
+    return {
+      url,
+      init: {
+        method: 'POST',
+        headers: openaiHeaders(config),
+        body: JSON.stringify({
+          model: config.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(stream ? { stream: true } : {}),
+        }),
+      },
+    };
+  },
+
+  parseResponse(response) {
+    const data = response as OpenAIPayload;
+    return {
+      content: data.choices?.[0]?.message?.content || null,
+      tokens: data.usage?.total_tokens,
+    };
+  },
+
+  parseStreamLine(line) {
+    const data = parseSSEData(line) as OpenAIPayload | null;
+    if (!data) return null;
+    return {
+      text: data.choices?.[0]?.delta?.content || undefined,
+      totalTokens: data.usage?.total_tokens,
+    };
+  },
+
+  buildModelsRequest(config) {
+    const base = getBaseUrl(config, openaiAdapter).replace(/\/chat\/completions$/, '');
+    return { url: `${base}/models`, init: { method: 'GET', headers: openaiHeaders(config) } };
+  },
+
+  parseModels: parseModelList,
+
+  defaultEmbeddingModel: 'text-embedding-3-small',
+
+  buildEmbeddingRequest(config, inputs) {
+    const base = getBaseUrl(config, openaiAdapter).replace(/\/chat\/completions$/, '');
+    return {
+      url: `${base}/embeddings`,
+      init: {
+        method: 'POST',
+        headers: openaiHeaders(config),
+        body: JSON.stringify({ model: config.embeddingModel, input: inputs }),
+      },
+    };
+  },
+
+  parseEmbeddings(response) {
+    const data = response as OpenAIEmbeddingPayload;
+    if (!Array.isArray(data.data)) return [];
+    return [...data.data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(entry => entry.embedding || []);
+  },
+};
+
+function anthropicHeaders(config: LLMConfig): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'x-api-key': config.apiKey,
+    'anthropic-version': '2023-06-01',
+    // 扩展页面属于浏览器环境，需要显式允许
+    'anthropic-dangerous-direct-browser-access': 'true',
+  };
+}
+
+const anthropicAdapter: ProviderAdapter = {
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  requiresApiKey: true,
+
+  buildRequest(config, request, stream) {
+    let url = getBaseUrl(config, anthropicAdapter);
+    if (!url.endsWith('/messages')) {
+      url = `${url}/messages`;
+    }
+    return {
+      url,
+      init: {
+        method: 'POST',
+        headers: anthropicHeaders(config),
+        body: JSON.stringify({
+          model: config.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(stream ? { stream: true } : {}),
+        }),
+      },
+    };
+  },
+
+  parseResponse(response) {
+    const data = response as AnthropicPayload;
+    const text = Array.isArray(data.content)
+      ? data.content.filter(block => block.type === 'text').map(block => block.text || '').join('')
+      : '';
+    const usage = data.usage;
+    return {
+      content: text || null,
+      tokens: usage ? (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0) : undefined,
+    };
+  },
+
+  // SSE 事件：message_start（输入 token）、content_block_delta（文本）、message_delta（输出 token）
+  parseStreamLine(line) {
+    const data = parseSSEData(line) as AnthropicPayload | null;
+    if (!data) return null;
+    switch (data.type) {
+      case 'content_block_delta':
+        return { text: data.delta?.type === 'text_delta' ? data.delta.text : undefined };
+      case 'message_start':
+        return { inputTokens: data.message?.usage?.input_tokens };
+      case 'message_delta':
+        return { outputTokens: data.usage?.output_tokens };
+      case 'error':
+        throw new Error(data.error?.message || 'Anthropic stream error');
+      default:
+        return null;
+    }
+  },
+
+  buildModelsRequest(config) {
+    const base = getBaseUrl(config, anthropicAdapter).replace(/\/messages$/, '');
+    return { url: `${base}/models?limit=1000`, init: { method: 'GET', headers: anthropicHeaders(config) } };
+  },
+
+  parseModels: parseModelList,
+};
+
+// Gemini 响应中的文本
+function getGeminiText(data: GeminiPayload): string {
+  const parts = data.candidates?.[0]?.content?.parts;
+  return Array.isArray(parts) ? parts.map(part => part.text || '').join('') : '';
+}
+
+const geminiAdapter: ProviderAdapter = {
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  requiresApiKey: true,
+
+  buildRequest(config, request, stream) {
+    const base = getBaseUrl(config, geminiAdapter);
+    const model = config.model.startsWith('models/') ? config.model : `models/${config.model}`;
+    const url = stream
+      ? `${base}/${model}:streamGenerateContent?alt=sse`
+      : `${base}/${model}:generateContent`;
+    return {
+      url,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': config.apiKey,
+        },
+        body: JSON.stringify({
+          // Gemini 中助手角色名为 model
+          contents: request.messages.map(message => ({
+            role: message.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: message.content }],
+          })),
+          generationConfig: {
+            temperature: request.temperature,
+            maxOutputTokens: request.maxTokens,
+          },
+        }),
+      },
+    };
+  },
+
+  parseResponse(response) {
+    const data = response as GeminiPayload;
+    return {
+      content: getGeminiText(data) || null,
+      tokens: data.usageMetadata?.totalTokenCount,
+    };
+  },
+
+  // 流式响应的每个 data 块都带有累计的 usageMetadata，取最后一次即可
+  parseStreamLine(line) {
+    const data = parseSSEData(line) as GeminiPayload | null;
+    if (!data) return null;
+    return {
+      text: getGeminiText(data) || undefined,
+      totalTokens: data.usageMetadata?.totalTokenCount,
+    };
+  },
+
+  buildModelsRequest(config) {
+    return {
+      url: `${getBaseUrl(config, geminiAdapter)}/models?pageSize=1000`,
+      init: { method: 'GET', headers: { 'x-goog-api-key': config.apiKey } },
+    };
+  },
+
+  // 只保留支持 generateContent 的模型，去掉 "models/" 前缀
+  parseModels(response) {
+    const data = response as GeminiModelsPayload;
+    if (!Array.isArray(data.models)) return [];
+    return uniqueSorted(
+      data.models
+        .filter(model => !model.supportedGenerationMethods || model.supportedGenerationMethods.includes('generateContent'))
+        .map(model => model.name?.replace(/^models\//, ''))
+    );
+  },
+
+  defaultEmbeddingModel: 'text-embedding-004',
+
+  buildEmbeddingRequest(config, inputs) {
+    const model = config.embeddingModel.startsWith('models/') ? config.embeddingModel : `models/${config.embeddingModel}`;
+    return {
+      url: `${getBaseUrl(config, geminiAdapter)}/${model}:batchEmbedContents`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': config.apiKey,
+        },
+        body: JSON.stringify({
+          requests: inputs.map(text => ({ model, content: { parts: [{ text }] } })),
+        }),
+      },
+    };
+  },
+
+  parseEmbeddings(response) {
+    const data = response as GeminiEmbeddingPayload;
+    return Array.isArray(data.embeddings) ? data.embeddings.map(entry => entry.values || []) : [];
+  },
+};
+
+// 兼容填写了 OpenAI 兼容地址（/v1）或完整路径的情况
+function getOllamaBase(config: LLMConfig): string {
+  return getBaseUrl(config, ollamaAdapter).replace(/\/(v1|api)(\/chat)?$/, '');
+}
+
+function ollamaHeaders(config: LLMConfig): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+  };
+}
+
+const ollamaAdapter: ProviderAdapter = {
+  defaultBaseUrl: 'http://localhost:11434',
+  requiresApiKey: false,
+
+  buildRequest(config, request, stream) {
+    return {
+      url: `${getOllamaBase(config)}/api/chat`,
+      init: {
+        method: 'POST',
+        headers: ollamaHeaders(config),
+        body: JSON.stringify({
+          model: config.model,
+          messages: request.messages,
+          stream,
+          options: {
+            temperature: request.temperature,
+            num_predict: request.maxTokens,
+          },
+        }),
+      },
+    };
+  },
+
+  parseResponse(response) {
+    const data = response as OllamaPayload;
+    return {
+      content: data.message?.content || null,
+      tokens: (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0) || undefined,
+    };
+  },
+
+  // 流式响应为 NDJSON，每行一个 JSON 对象，最后一行（done=true）带 token 统计
+  parseStreamLine(line) {
+    try {
+      const data = JSON.parse(line) as OllamaPayload;
+      if (data.error) {
+        throw new Error(data.error);
+      }
+      return {
+        text: data.message?.content || undefined,
+        inputTokens: data.prompt_eval_count,
+        outputTokens: data.eval_count,
+      };
+    } catch (error) {
+      if (error instanceof SyntaxError) return null;
+      throw error;
+    }
+  },
+
+  // 本地已下载的模型
+  buildModelsRequest(config) {
+    return { url: `${getOllamaBase(config)}/api/tags`, init: { method: 'GET', headers: ollamaHeaders(config) } };
+  },
+
+  parseModels(response) {
+    const data = response as OllamaTagsPayload;
+    return Array.isArray(data.models) ? uniqueSorted(data.models.map(model => model.name)) : [];
+  },
+
+  defaultEmbeddingModel: 'nomic-embed-text',
+
+  buildEmbeddingRequest(config, inputs) {
+    return {
+      url: `${getOllamaBase(config)}/api/embed`,
+      init: {
+        method: 'POST',
+        headers: ollamaHeaders(config),
+        body: JSON.stringify({ model: config.embeddingModel, input: inputs }),
+      },
+    };
+  },
+
+  parseEmbeddings(response) {
+    const data = response as OllamaEmbeddingPayload;
+    return Array.isArray(data.embeddings) ? data.embeddings : [];
+  },
+};
+
+export const PROVIDER_ADAPTERS: Record<LLMProvider, ProviderAdapter> = {
+  openai: openaiAdapter,
+  anthropic: anthropicAdapter,
+  gemini: geminiAdapter,
+  ollama: ollamaAdapter,
+};
+
+export const LLM_PROVIDERS = Object.keys(PROVIDER_ADAPTERS) as LLMProvider[];
+
+export function getProviderAdapter(provider: LLMProvider = 'openai'): ProviderAdapter {
+  return PROVIDER_ADAPTERS[provider] ?? openaiAdapter;
+}
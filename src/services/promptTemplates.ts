@@ -0,0 +1,135 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * Prompt 模板服务
+ * 摘要、标签和推荐使用的 prompt 均为可编辑模板，变量写作 {name}。
+ * 渲染时，如果某一行引用的变量全部为空，整行会被省略（如没有原文摘要时不输出“原文摘要:”）。
+ */
+
+import { PromptTemplateKind, PromptTemplates, SourceType } from '../types/index.ts';
+import { logger } from '../utils/logger.ts';
+
+// 模板变量，如 {title}
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+export const PROMPT_TEMPLATE_KINDS: PromptTemplateKind[] = ['summary', 'tags', 'recommendations'];
+
+// 每类模板可用的变量
+export const PROMPT_VARIABLES: Record<PromptTemplateKind, readonly string[]> = {
+  summary: ['title', 'source', 'url', 'summary', 'tags', 'article', 'language'],
+  tags: ['content', 'language'],
+  recommendations: ['items', 'count', 'language'],
+};
+
+// 内置默认模板
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateKind, string> = {
+  summary: `请为以下技术内容生成一个简洁的摘要（50-100字），突出关键信息和价值点：
+
+标题: {title}
+来源: {source}
+链接: {url}
+原文摘要: {summary}
+标签: {tags}
+正文节选: {article}
+
+要求：
+1. 使用{language}输出
+2. 简洁明了，突出核心价值
+3. 如果是代码库，说明其用途和亮点
+4. 如果是论文，说明研究贡献
+5. 如果是文章，说明主要观点
+
+请直接返回摘要内容，不要包含任何前缀或格式标记。`,
+
+  tags: `请为以下技术内容生成3-5个相关标签和1个分类：
+
+内容：
+{content}
+
+分类选项（必须从中选择）：
+- AI: AI/机器学习/深度学习相关
+- Development: 编程/开发工具/框架相关
+- News: 技术新闻/行业动态
+- Research: 学术研究/论文/实验
+- Product: 产品发布/工具推荐
+- Tutorial: 教程/指南/文档
+- Other: 其他分类
+
+要求：
+1. 使用{language}输出标签
+2. 标签应该简洁、具体、有价值
+3. 每个标签1-3个词
+4. 只选择一个分类
+5. 标签应该反映内容的核心价值
+
+返回格式（JSON）：
+{
+  "tags": ["标签1", "标签2", "标签3"],
+  "category": "AI"
+}
+
+请只返回JSON，不要包含其他内容。`,
+
+  recommendations: `从以下{count}条技术热点中，选择5条最值得关注的（对于AI开发者或技术工程师），返回索引号（1-{count}）：
+
+{items}
+
+返回格式：["1", "5", "8", "12", "16"]
+请只返回JSON数组，不要包含其他内容。`,
+};
+
+/**
+ * 找出模板中不支持的变量（去重，按出现顺序）
+ */
+export function findUnknownVariables(kind: PromptTemplateKind, template: string): string[] {
+  const allowed = PROMPT_VARIABLES[kind];
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (!allowed.includes(match[1])) {
+      unknown.add(match[1]);
+    }
+  }
+  return [...unknown];
+}
+
+/**
+ * 渲染模板：替换变量，并省略所引用变量全部为空的行
+ */
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template
+    .split('\n')
+    .filter(line => {
+      const names = [...line.matchAll(VARIABLE_PATTERN)]
+        .map(match => match[1])
+        .filter(name => name in variables);
+      return names.length === 0 || names.some(name => variables[name].trim() !== '');
+    })
+    .join('\n')
+    .replace(VARIABLE_PATTERN, (match, name: string) => (name in variables ? variables[name] : match));
+}
+
+/**
+ * 选择实际使用的模板：来源类型覆盖 > 自定义模板 > 默认模板
+ * 含未知变量的自定义模板会被忽略，退回下一级
+ */
+export function resolvePromptTemplate(
+  templates: PromptTemplates | undefined,
+  kind: PromptTemplateKind,
+  sourceType?: SourceType
+): string {
+  const override = kind === 'summary' && sourceType ? templates?.summaryOverrides?.[sourceType] : undefined;
+
+  for (const candidate of [override, templates?.[kind]]) {
+    if (!candidate?.trim()) continue;
+    const unknown = findUnknownVariables(kind, candidate);
+    if (unknown.length === 0) {
+      return candidate;
+    }
+    logger.warn(`[PromptTemplates] Ignoring ${kind} template with unknown variables: ${unknown.join(', ')}`);
+  }
+
+  return DEFAULT_PROMPT_TEMPLATES[kind];
+}
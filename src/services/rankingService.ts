@@ -0,0 +1,109 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * 排序服务
+ * 统一 fetchAllData 与侧边栏的排序逻辑：置顶 → 规则加权 → 按排序模式。
+ * 各数据源的热度量级差异很大（GitHub star 与 HN points 相差几个数量级），
+ * 因此热度先按来源归一化，再做 HN 式时间衰减。
+ */
+
+import { FeedItem, RankingMode } from '../types/index.ts';
+
+// 时间衰减指数（与 HN 相同）
+const GRAVITY = 1.8;
+// 没有发布时间的条目（如 GitHub Trending）按该时长计算衰减
+const DEFAULT_AGE_HOURS = 12;
+// 来源内没有任何热度数据时使用的中性分值（如 RSS）
+const NEUTRAL_ENGAGEMENT = 0.5;
+// 评论在热度中的权重
+const COMMENT_WEIGHT = 2;
+
+export const RANKING_MODES: RankingMode[] = ['hot', 'newest', 'discussed', 'personalized'];
+
+export interface RankingContext {
+  // 个性化分值（-1~1，0 表示无偏好），personalized 模式使用
+  personalScore?: (item: FeedItem) => number;
+  now?: number;
+}
+
+function getTime(item: FeedItem): number {
+  if (!item.publishedAt) return 0;
+  const date = item.publishedAt instanceof Date ? item.publishedAt : new Date(item.publishedAt);
+  return date.getTime() || 0;
+}
+
+// 原始热度：GitHub 优先使用周期内新增 star，其余使用分数/点赞数加评论
+function getEngagement(item: FeedItem): number {
+  const points = item.starsGained ?? item.score ?? item.upvotes ?? 0;
+  return Math.max(0, points) + COMMENT_WEIGHT * (item.commentCount ?? 0);
+}
+
+/**
+ * 按来源归一化热度（0~1，对数刻度），返回 item.id -> 归一化值
+ */
+export function normalizeEngagement(items: FeedItem[]): Map<string, number> {
+  const maxBySource = new Map<string, number>();
+  items.forEach(item => {
+    const key = item.sourceId ?? item.source;
+    maxBySource.set(key, Math.max(maxBySource.get(key) ?? 0, getEngagement(item)));
+  });
+
+  return new Map(items.map(item => {
+    const max = maxBySource.get(item.sourceId ?? item.source) ?? 0;
+    const value = max > 0 ? Math.log1p(getEngagement(item)) / Math.log1p(max) : NEUTRAL_ENGAGEMENT;
+    return [item.id, value];
+  }));
+}
+
+/**
+ * HN 式热度分：(归一化热度 + 偏移) / (小时数 + 2)^GRAVITY
+ */
+export function hotScore(normalized: number, item: FeedItem, now: number = Date.now()): number {
+  const time = getTime(item);
+  const ageHours = time > 0 ? Math.max(0, (now - time) / 3600000) : DEFAULT_AGE_HOURS;
+  return (normalized * 100 + 1) / Math.pow(ageHours + 2, GRAVITY);
+}
+
+/**
+ * 按模式排序（返回新数组）
+ * 所有模式都保持置顶优先、规则加权其次
+ */
+export function rankItems(items: FeedItem[], mode: RankingMode = 'newest', context: RankingContext = {}): FeedItem[] {
+  const now = context.now ?? Date.now();
+  const scores = new Map<string, number>();
+
+  if (mode === 'hot' || mode === 'personalized') {
+    const normalized = normalizeEngagement(items);
+    items.forEach(item => {
+      let score = hotScore(normalized.get(item.id) ?? 0, item, now);
+      if (mode === 'personalized' && context.personalScore) {
+        score *= 1 + context.personalScore(item);
+      }
+      scores.set(item.id, score);
+    });
+  } else if (mode === 'discussed') {
+    items.forEach(item => scores.set(item.id, item.commentCount ?? 0));
+  }
+
+  return [...items].sort((a, b) => {
+    // 1. 置顶优先
+    if (a.isPinned !== b.isPinned) {
+      return a.isPinned ? -1 : 1;
+    }
+
+    // 2. 规则加权
+    if ((a.ruleBoost ?? 0) !== (b.ruleBoost ?? 0)) {
+      return (b.ruleBoost ?? 0) - (a.ruleBoost ?? 0);
+    }
+
+    // 3. 按模式分值，相同时按发布时间
+    if (mode !== 'newest') {
+      const diff = (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0);
+      if (diff !== 0) return diff;
+    }
+    return getTime(b) - getTime(a);
+  });
+}
@@ -0,0 +1,203 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * 关键词规则服务
+ * 按用户规则屏蔽、高亮、自动收藏或加权条目。
+ * 屏蔽规则只在读取时生效（侧边栏过滤、每日精选），存储中保留被屏蔽的条目，
+ * 规则修改或删除后无需重新抓取即可生效。
+ */
+
+import { FeedItem, FeedRule } from '../types/index.ts';
+import { FavoriteItem, createFavoriteSnapshot } from '../types/favorite';
+import { loadFavorites, saveFavorites } from './favoritesStorage.ts';
+import { safeStorageGet, safeStorageSet } from '../utils/chrome.ts';
+import { logger } from '../utils/logger.ts';
+
+// 已被规则自动收藏过的条目 ID，用户取消收藏后不再重复收藏
+const AUTO_FAVORITED_KEY = 'rules_auto_favorited';
+const AUTO_FAVORITED_LIMIT = 1000;
+
+// 单个条目的规则命中结果
+export interface RuleEffects {
+  hidden: boolean;
+  highlighted: boolean;
+  favorite: boolean;
+  boost: number;            // 命中的加权规则数
+  matchedRuleIds: string[];
+}
+
+// 正则编译缓存（无效正则缓存为 null）
+const regexCache = new Map<string, RegExp | null>();
+
+function compileRegex(pattern: string, caseSensitive: boolean): RegExp | null {
+  const key = `${caseSensitive ? 's' : 'i'}:${pattern}`;
+  if (!regexCache.has(key)) {
+    try {
+      regexCache.set(key, new RegExp(pattern, caseSensitive ? '' : 'i'));
+    } catch {
+      regexCache.set(key, null);
+    }
+  }
+  return regexCache.get(key)!;
+}
+
+/**
+ * 校验规则的正则表达式，返回错误信息（合法时返回 null）
+ */
+export function validateRulePattern(rule: Pick<FeedRule, 'matchType' | 'pattern'>): string | null {
+  if (rule.matchType !== 'regex') return null;
+  try {
+    new RegExp(rule.pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// 取出规则字段对应的文本
+function getFieldValues(item: FeedItem, field: FeedRule['field']): string[] {
+  switch (field) {
+    case 'title':
+      return [item.title];
+    case 'summary':
+      return [item.summary || '', item.aiSummary || ''];
+    case 'author':
+      return [item.author || ''];
+    case 'source':
+      return [item.source, item.sourceName || ''];
+    case 'tags':
+      return item.tags ?? [];
+    case 'any':
+    default:
+      return [
+        item.title, item.summary || '', item.author || '',
+        item.source, item.sourceName || '', ...(item.tags ?? []),
+      ];
+  }
+}
+
+/**
+ * 判断单条规则是否命中条目
+ */
+export function matchRule(rule: FeedRule, item: FeedItem): boolean {
+  if (!rule.enabled || !rule.pattern.trim()) return false;
+
+  const values = getFieldValues(item, rule.field).filter(Boolean);
+  if (rule.matchType === 'regex') {
+    const regex = compileRegex(rule.pattern, !!rule.caseSensitive);
+    return !!regex && values.some(value => regex.test(value));
+  }
+
+  const needle = rule.caseSensitive ? rule.pattern : rule.pattern.toLowerCase();
+  return values.some(value => (rule.caseSensitive ? value : value.toLowerCase()).includes(needle));
+}
+
+/**
+ * 计算条目命中的全部规则效果
+ */
+export function evaluateRules(item: FeedItem, rules: FeedRule[]): RuleEffects {
+  const effects: RuleEffects = { hidden: false, highlighted: false, favorite: false, boost: 0, matchedRuleIds: [] };
+
+  rules.forEach(rule => {
+    if (!matchRule(rule, item)) return;
+    effects.matchedRuleIds.push(rule.id);
+    switch (rule.action) {
+      case 'hide':
+        effects.hidden = true;
+        break;
+      case 'highlight':
+        effects.highlighted = true;
+        break;
+      case 'favorite':
+        effects.favorite = true;
+        break;
+      case 'boost':
+        effects.boost += 1;
+        break;
+    }
+  });
+
+  return effects;
+}
+
+/**
+ * 应用规则：移除被屏蔽的条目，并重新标记高亮和加权
+ * 每次都会覆盖旧标记，规则删除后标记随之消失
+ */
+export function applyRules(items: FeedItem[], rules: FeedRule[] = []): FeedItem[] {
+  const activeRules = rules.filter(rule => rule.enabled);
+
+  return items.flatMap(item => {
+    const effects = evaluateRules(item, activeRules);
+    if (effects.hidden) return [];
+    return [{
+      ...item,
+      highlighted: effects.highlighted || undefined,
+      ruleBoost: effects.boost || undefined,
+    }];
+  });
+}
+
+/**
+ * 按未被屏蔽的条目数裁剪到 maxItems
+ * 被屏蔽的条目不占名额并继续保留，规则删除后可以重新显示
+ */
+export function limitVisibleItems(items: FeedItem[], rules: FeedRule[] = [], maxItems: number): FeedItem[] {
+  const hideRules = rules.filter(rule => rule.enabled && rule.action === 'hide');
+  let visibleCount = 0;
+  return items.filter(item => {
+    if (hideRules.some(rule => matchRule(rule, item))) return true;
+    visibleCount += 1;
+    return visibleCount <= maxItems;
+  });
+}
+
+/**
+ * 自动收藏命中“收藏”规则的条目
+ * 每个条目只自动收藏一次，用户之后取消收藏不会被再次加回
+ * @returns 新增收藏数
+ */
+export async function applyAutoFavorites(items: FeedItem[], rules: FeedRule[] = []): Promise<number> {
+  const favoriteRules = rules.filter(rule => rule.enabled && rule.action === 'favorite');
+  if (favoriteRules.length === 0) return 0;
+
+  const matched = items.filter(item => favoriteRules.some(rule => matchRule(rule, item)));
+  if (matched.length === 0) return 0;
+
+  const favorites = await loadFavorites();
+  const result = await safeStorageGet([AUTO_FAVORITED_KEY]);
+  const autoFavorited: string[] = Array.isArray(result[AUTO_FAVORITED_KEY]) ? result[AUTO_FAVORITED_KEY] : [];
+
+  const favoriteIds = new Set(favorites.map(favorite => favorite.id));
+  const handledIds = new Set(autoFavorited);
+  const now = Date.now();
+
+  const added: FavoriteItem[] = matched
+    .filter(item => !favoriteIds.has(item.id) && !handledIds.has(item.id))
+    .map(item => ({
+      id: item.id,
+      isFavorite: true,
+      tags: [],
+      category: 'Other',
+      createdAt: now,
+      updatedAt: now,
+      snapshot: createFavoriteSnapshot(item),
+    }));
+
+  const newHandled = Array.from(new Set([...autoFavorited, ...matched.map(item => item.id)]))
+    .slice(-AUTO_FAVORITED_LIMIT);
+
+  // 通过共享的收藏存储写入，已打开的侧边栏会随之重新加载
+  if (added.length > 0) {
+    await saveFavorites([...favorites, ...added]);
+  }
+  await safeStorageSet({ [AUTO_FAVORITED_KEY]: newHandled });
+
+  if (added.length > 0) {
+    logger.info(`[Rules] Auto-favorited ${added.length} items`);
+  }
+  return added.length;
+}
@@ -2,18 +2,25 @@
  *   Copyright (c) 2025 
  *   All rights reserved.
  */
-import { AppConfig, FeedItem, SourceConfig } from '../types/index.ts';
+import { AppConfig, FeedItem, SourceConfig, RankingMode } from '../types/index.ts';
+import { Digest } from '../types/digest';
 import { defaultConfig } from '../types/index.ts';
-import { safeStorageGet, safeStorageSet, safeStorageClear } from '../utils/chrome.ts';
+import { safeStorageGet, safeStorageSet, safeStorageRemove, safeStorageClear } from '../utils/chrome.ts';
 import { logger } from '../utils/logger.ts';
+import {
+  isIndexedDBKey, idbGetCache, idbSaveCache, idbRemoveCache, idbGetItems, idbSaveItems, clearIndexedDBStorage,
+} from './idbStorage.ts';
+import { clearArchive } from './archiveService.ts';
 
 // 存储键名
 const STORAGE_KEYS = {
   CONFIG: 'infotrend_config',
-  FEEDS: 'infotrend_feeds',
   CACHE: 'infotrend_cache',
   LAST_UPDATE: 'infotrend_last_update',
   DATA_METADATA: 'infotrend_data_metadata',
+  SOURCE_HEALTH: 'infotrend_source_health',
+  RANKING_MODE: 'infotrend_ranking_mode',
+  DIGESTS: 'infotrend_digests',
 };
 
 // 获取配置
@@ -28,29 +35,48 @@ export async function saveConfig(config: AppConfig): Promise<void> {
   await safeStorageSet({ [STORAGE_KEYS.CONFIG]: config });
 }
 
-// 获取Feed数据
+// 监听配置变化（设置页保存后触发），返回取消监听函数
+export function onConfigChanged(listener: (config: AppConfig) => void): () => void {
+  if (typeof chrome === 'undefined' || !chrome.storage?.onChanged) return () => {};
+
+  const handler = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName === 'local' && changes[STORAGE_KEYS.CONFIG]) {
+      listener((changes[STORAGE_KEYS.CONFIG].newValue as AppConfig | undefined) || defaultConfig);
+    }
+  };
+  chrome.storage.onChanged.addListener(handler);
+  return () => chrome.storage.onChanged.removeListener(handler);
+}
+
+// 获取Feed数据（保存在 IndexedDB）
 export async function getFeeds(): Promise<FeedItem[]> {
-  const result = await safeStorageGet([STORAGE_KEYS.FEEDS]);
-  const feeds = result[STORAGE_KEYS.FEEDS];
-  return feeds || [];
+  return idbGetItems();
 }
 
-// 保存Feed数据
+// 保存Feed数据（保存在 IndexedDB）
 export async function saveFeeds(feeds: FeedItem[]): Promise<void> {
-  await safeStorageSet({ [STORAGE_KEYS.FEEDS]: feeds });
+  await idbSaveItems(feeds);
 }
 
-// 获取缓存
+// 获取缓存（数据源、正文和 AI 缓存在 IndexedDB，其余在 chrome.storage）
 export async function getCache(key: string): Promise<any> {
+  if (isIndexedDBKey(key)) return idbGetCache(key);
   const result = await safeStorageGet([key]);
   return result[key];
 }
 
 // 保存缓存
 export async function saveCache(key: string, value: any): Promise<void> {
+  if (isIndexedDBKey(key)) return idbSaveCache(key, value);
   await safeStorageSet({ [key]: value });
 }
 
+// 删除缓存
+export async function removeCache(key: string): Promise<void> {
+  if (isIndexedDBKey(key)) return idbRemoveCache(key);
+  await safeStorageRemove([key]);
+}
+
 // 获取最后更新时间
 export async function getLastUpdate(): Promise<number> {
   const result = await safeStorageGet([STORAGE_KEYS.LAST_UPDATE]);
@@ -84,9 +110,74 @@ export async function updateDataMetadata(): Promise<void> {
   await safeStorageSet({ [STORAGE_KEYS.DATA_METADATA]: metadata });
 }
 
+// 数据源抓取健康状态（每次刷新记录，按 source.id 索引）
+export interface SourceHealth {
+  sourceId: string;
+  status: 'ok' | 'not_modified' | 'error';
+  checkedAt: number;           // 最近一次抓取时间戳
+  lastSuccess?: number;        // 最近一次成功时间戳
+  lastError?: string;          // 最近一次错误信息
+  lastErrorAt?: number;        // 最近一次错误时间戳
+  httpStatus?: number;         // 最近一次 HTTP 状态码
+  itemCount: number;           // 最近一次返回条目数
+  durationMs: number;          // 最近一次抓取耗时
+}
+
+// 获取数据源健康状态
+export async function getSourceHealth(): Promise<Record<string, SourceHealth>> {
+  const result = await safeStorageGet([STORAGE_KEYS.SOURCE_HEALTH]);
+  return result[STORAGE_KEYS.SOURCE_HEALTH] || {};
+}
+
+// 合并保存数据源健康状态
+export async function saveSourceHealth(entries: SourceHealth[]): Promise<void> {
+  if (entries.length === 0) return;
+  const current = await getSourceHealth();
+  for (const entry of entries) {
+    current[entry.sourceId] = { ...current[entry.sourceId], ...entry };
+  }
+  await safeStorageSet({ [STORAGE_KEYS.SOURCE_HEALTH]: current });
+}
+
+// 获取侧边栏排序模式
+export async function getRankingMode(): Promise<RankingMode> {
+  const result = await safeStorageGet([STORAGE_KEYS.RANKING_MODE]);
+  return result[STORAGE_KEYS.RANKING_MODE] || 'newest';
+}
+
+// 保存侧边栏排序模式
+export async function saveRankingMode(mode: RankingMode): Promise<void> {
+  await safeStorageSet({ [STORAGE_KEYS.RANKING_MODE]: mode });
+}
+
+// 简报最多保留天数
+const DIGEST_RETENTION_DAYS = 30;
+
+// 获取全部每日简报（按日期索引）
+export async function getDigests(): Promise<Record<string, Digest>> {
+  const result = await safeStorageGet([STORAGE_KEYS.DIGESTS]);
+  return result[STORAGE_KEYS.DIGESTS] || {};
+}
+
+// 保存每日简报（同一天覆盖，只保留最近的若干天）
+export async function saveDigest(digest: Digest): Promise<void> {
+  const digests = await getDigests();
+  digests[digest.date] = digest;
+  const kept = Object.keys(digests)
+    .sort()
+    .slice(-DIGEST_RETENTION_DAYS)
+    .reduce<Record<string, Digest>>((acc, date) => {
+      acc[date] = digests[date];
+      return acc;
+    }, {});
+  await safeStorageSet({ [STORAGE_KEYS.DIGESTS]: kept });
+}
+
 // 清除所有数据
 export async function clearAll(): Promise<void> {
   await safeStorageClear();
+  await clearIndexedDBStorage();
+  await clearArchive();
 }
 
 // 导出数据
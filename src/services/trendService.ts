@@ -0,0 +1,102 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * 热度趋势
+ * 根据历史归档中每次抓取的热度记录，计算条目近期的增长（按来源分别比较），
+ * 用于信息流中的迷你走势图和“快速上升”标记。
+ */
+
+import { ScoreSnapshot } from '../types/archive';
+
+// 参与走势判断的指标（按优先级选择条目有记录的第一个）
+export type TrendMetric = 'score' | 'upvotes' | 'commentCount';
+const TREND_METRICS: TrendMetric[] = ['score', 'upvotes', 'commentCount'];
+
+// 计算增长的时间窗口
+const TREND_WINDOW = 24 * 60 * 60 * 1000;
+// 两次记录至少间隔多久才计算增长，避免连续手动刷新产生噪声
+const MIN_TREND_SPAN = 30 * 60 * 1000;
+// 走势图最多显示的点数
+const MAX_SPARKLINE_POINTS = 24;
+
+// “快速上升”：窗口内至少增长 RISING_MIN_GAIN，且相对增长达到 RISING_MIN_GROWTH
+// 或绝对增长达到 RISING_ABSOLUTE_GAIN（大项目的相对增长天然较小，如 GitHub 热门仓库一天 +2k star）
+const RISING_MIN_GAIN = 50;
+const RISING_MIN_GROWTH = 0.3;
+const RISING_ABSOLUTE_GAIN = 1000;
+
+export interface TrendInfo {
+  metric: TrendMetric;
+  points: number[]; // 走势图数据（按时间顺序）
+  gain: number; // 窗口内的增长
+  hours: number; // 增长对应的时长（小时）
+  rising: boolean;
+}
+
+// 快照中各来源的指标值；旧记录没有分来源数据，整体视为同一个来源
+function sourceValues(snapshot: ScoreSnapshot, metric: TrendMetric): Map<string, number> {
+  const values = new Map<string, number>();
+  Object.entries(snapshot.sources ?? { '': snapshot }).forEach(([source, scores]) => {
+    const value = scores[metric];
+    if (value !== undefined) values.set(source, value);
+  });
+  return values;
+}
+
+/**
+ * 按时间累计的指标序列：相邻两次记录之间只累加两次都存在的来源的变化，
+ * 合并条目有来源加入或离开时不会产生虚假的跳变
+ */
+function buildSeries(history: ScoreSnapshot[], metric: TrendMetric): { at: number; value: number }[] {
+  const series: { at: number; value: number }[] = [];
+  let previous: Map<string, number> | null = null;
+  let value = 0;
+
+  for (const snapshot of history) {
+    if (snapshot[metric] === undefined) continue;
+    const current = sourceValues(snapshot, metric);
+    if (!previous) {
+      value = snapshot[metric] as number;
+    } else {
+      for (const [source, sourceValue] of current) {
+        const before = previous.get(source);
+        if (before !== undefined) value += sourceValue - before;
+      }
+    }
+    previous = current;
+    series.push({ at: snapshot.at, value });
+  }
+  return series;
+}
+
+/**
+ * 分析条目的热度趋势，记录不足两次时返回 null
+ */
+export function analyzeTrend(history: ScoreSnapshot[], now: number = Date.now()): TrendInfo | null {
+  const metric = TREND_METRICS.find(name => history.some(snapshot => snapshot[name] !== undefined));
+  if (!metric) return null;
+
+  const series = buildSeries(history, metric);
+  if (series.length < 2) return null;
+
+  const latest = series[series.length - 1];
+  // 窗口内最早的记录作为基准；窗口内只有最新一条时使用窗口前的最后一条
+  const inWindow = series.filter(point => point.at >= now - TREND_WINDOW);
+  const baseline = inWindow.length > 1 ? inWindow[0] : series[series.length - 2];
+  const span = latest.at - baseline.at;
+
+  // 间隔过短（噪声）或过长（不再是“近期”）时不计算增长
+  const gain = span >= MIN_TREND_SPAN && span <= 2 * TREND_WINDOW ? latest.value - baseline.value : 0;
+  const growth = gain / Math.max(baseline.value, 1);
+
+  return {
+    metric,
+    points: series.slice(-MAX_SPARKLINE_POINTS).map(point => point.value),
+    gain,
+    hours: Math.max(1, Math.round(span / (60 * 60 * 1000))),
+    rising: gain >= RISING_MIN_GAIN && (growth >= RISING_MIN_GROWTH || gain >= RISING_ABSOLUTE_GAIN),
+  };
+}
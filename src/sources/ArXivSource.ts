@@ -23,12 +23,13 @@ export class ArXivSource extends BaseSource {
 
   async fetch(options: SourceFetchOptions = {}): Promise<FeedItem[]> {
     const count = options.count ?? this.defaultCount;
-    const query = options.query ?? this.defaultQuery;
+    const query = this.buildQuery(options);
 
     return this.safeExecute(async () => {
       // sortBy=submittedDate 按提交日期排序，sortOrder=descending 最新的在前
-      const response = await this.safeFetch(
-        `${this.apiUrl}?search_query=${encodeURIComponent(query)}&start=0&max_results=${count}&sortBy=submittedDate&sortOrder=descending`
+      const response = await this.conditionalFetch(
+        `${this.apiUrl}?search_query=${encodeURIComponent(query)}&start=0&max_results=${count}&sortBy=submittedDate&sortOrder=descending`,
+        options
       );
       const text = await response.text();
 
@@ -54,7 +55,7 @@ export class ArXivSource extends BaseSource {
           .filter(Boolean);
 
         return {
-          id: this.generateId(arxivId),
+          id: this.generateScopedId(arxivId, options),
           title: this.cleanString(title),
           source: 'ArXiv',
           url: id,
@@ -64,7 +65,33 @@ export class ArXivSource extends BaseSource {
           author: authors.join(', '),
         };
       });
-    }, []);
+    }, [], options);
+  }
+
+  /**
+   * Build search_query from options
+   * A raw `query` wins; otherwise `categories` are OR-ed and AND-ed with OR-ed `keywords`
+   */
+  private buildQuery(options: SourceFetchOptions): string {
+    if (options.query?.trim()) {
+      return options.query.trim();
+    }
+
+    const categories: string[] = (options.categories ?? []).filter(Boolean);
+    const keywords: string[] = (options.keywords ?? '')
+      .split(',')
+      .map((k: string) => k.trim())
+      .filter(Boolean);
+
+    const parts: string[] = [];
+    if (categories.length > 0) {
+      parts.push(`(${categories.map((c) => `cat:${c}`).join(' OR ')})`);
+    }
+    if (keywords.length > 0) {
+      parts.push(`(${keywords.map((k) => `all:"${k.replace(/"/g, '')}"`).join(' OR ')})`);
+    }
+
+    return parts.length > 0 ? parts.join(' AND ') : this.defaultQuery;
   }
 }
 
@@ -37,7 +37,7 @@ export class DevToSource extends BaseSource {
 
     const items = await this.safeExecute(
       async () => {
-        const response = await this.safeFetch(`${this.apiUrl}?top=1&per_page=${count}`);
+        const response = await this.conditionalFetch(`${this.apiUrl}?top=1&per_page=${count}`, options);
         const data: DevToArticle[] = await response.json();
 
         return data.map((article) => ({
@@ -53,7 +53,8 @@ export class DevToSource extends BaseSource {
           commentCount: article.comments_count,
         }));
       },
-      []
+      [],
+      options
     );
 
     return items;
@@ -35,7 +35,7 @@ export class EchoJSSource extends BaseSource {
 
     const items = await this.safeExecute(
       async () => {
-        const response = await this.safeFetch(this.apiUrl);
+        const response = await this.conditionalFetch(this.apiUrl, options);
         const data: EchoJSResponse = await response.json();
 
         return data.news.slice(0, count).map((news) => ({
@@ -50,7 +50,8 @@ export class EchoJSSource extends BaseSource {
           upvotes: news.upvotes,
         }));
       },
-      []
+      [],
+      options
     );
 
     return items;
@@ -6,49 +6,114 @@ import * as cheerio from 'cheerio';
 import type { CheerioAPI, Cheerio } from 'cheerio';
 import type { AnyNode } from 'domhandler';
 import { BaseSource, SourceFetchOptions } from './base/BaseSource.ts';
-import { FeedItem } from '../types/index.ts';
+import { FeedItem, GitHubTrendingSince } from '../types/index.ts';
 import { SourceRegistry } from './SourceRegistry.ts';
 
 /**
  * Data source for GitHub Trending
  * Uses cheerio for stable HTML parsing since GitHub doesn't provide an API for trending
+ * Options: `since` (daily/weekly/monthly), `languages` (one page per language, merged),
+ * `spokenLanguage` (spoken_language_code)
  */
 export class GitHubSource extends BaseSource {
   readonly sourceName = 'GitHub';
-  private readonly trendingUrl = 'https://github.com/trending?since=daily';
+  private readonly trendingBase = 'https://github.com/trending';
 
   async fetch(options: SourceFetchOptions = {}): Promise<FeedItem[]> {
     const count = options.count ?? this.defaultCount;
+    const since: GitHubTrendingSince = options.since ?? 'daily';
+    const urls = this.buildUrls(options, since);
+
+    // A 304 on one page of several would drop that page's repos, so only
+    // send conditional requests when there is a single page to fetch
+    const fetchOptions = urls.length > 1 ? { ...options, conditional: false } : options;
 
     const items = await this.safeExecute(
       async () => {
-        const response = await this.safeFetch(this.trendingUrl, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (compatible; InfoTrendExtension/1.0)',
-          },
-        });
-        const html = await response.text();
-
-        return this.parseGitHubTrendingHTML(html, count);
+        const results = await Promise.allSettled(
+          urls.map(async (url) => {
+            const response = await this.conditionalFetch(url, fetchOptions, {
+              headers: {
+                'User-Agent': 'Mozilla/5.0 (compatible; InfoTrendExtension/1.0)',
+              },
+            });
+            const html = await response.text();
+            return this.parseGitHubTrendingHTML(html, since, options);
+          })
+        );
+
+        const pages = results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+        if (pages.length === 0) {
+          // Every page failed: surface the first error
+          throw (results[0] as PromiseRejectedResult).reason;
+        }
+
+        return this.mergePages(pages, count);
       },
-      []
+      [],
+      options
     );
 
     return items;
   }
 
+  /**
+   * Build one trending URL per configured language (or a single all-languages URL)
+   * e.g. https://github.com/trending/rust?since=weekly&spoken_language_code=zh
+   */
+  private buildUrls(options: SourceFetchOptions, since: GitHubTrendingSince): string[] {
+    const languages: string[] = (options.languages ?? [])
+      .map((l: string) => l.trim().toLowerCase())
+      .filter(Boolean);
+
+    const params = new URLSearchParams({ since });
+    if (options.spokenLanguage) {
+      params.set('spoken_language_code', options.spokenLanguage);
+    }
+
+    const paths = languages.length > 0
+      ? languages.map((l) => `/${encodeURIComponent(l)}`)
+      : [''];
+    return paths.map((path) => `${this.trendingBase}${path}?${params.toString()}`);
+  }
+
+  /**
+   * Merge repositories from several trending pages
+   * Deduplicates by URL and orders by stars gained in the period
+   */
+  private mergePages(pages: FeedItem[][], count: number): FeedItem[] {
+    if (pages.length === 1) {
+      return pages[0].slice(0, count);
+    }
+
+    const byUrl = new Map<string, FeedItem>();
+    pages.flat().forEach((item) => {
+      if (!byUrl.has(item.url)) {
+        byUrl.set(item.url, item);
+      }
+    });
+
+    return Array.from(byUrl.values())
+      .sort((a, b) => (b.starsGained ?? 0) - (a.starsGained ?? 0))
+      .slice(0, count);
+  }
+
   /**
    * Parse GitHub trending HTML and extract repository information
    * Uses cheerio for stable and maintainable HTML parsing
    */
-  private parseGitHubTrendingHTML(html: string, count: number): FeedItem[] {
+  private parseGitHubTrendingHTML(
+    html: string,
+    since: GitHubTrendingSince,
+    options: SourceFetchOptions
+  ): FeedItem[] {
     const $ = cheerio.load(html);
     const articles = $('article.Box-row');
 
     const items: FeedItem[] = [];
 
-    articles.slice(0, count).each((_, element) => {
-      const item = this.parseArticle($, $(element));
+    articles.each((_, element) => {
+      const item = this.parseArticle($, $(element), since, options);
       if (item) {
         items.push(item);
       }
@@ -62,7 +127,9 @@ export class GitHubSource extends BaseSource {
    */
   private parseArticle(
     _$: CheerioAPI,
-    article: Cheerio<AnyNode>
+    article: Cheerio<AnyNode>,
+    since: GitHubTrendingSince,
+    options: SourceFetchOptions
   ): FeedItem | null {
     // Extract repository link from h2 > a
     const repoLink = article.find('h2 a[href^="/"]').first();
@@ -94,11 +161,12 @@ export class GitHubSource extends BaseSource {
     const langEl = article.find('span[itemprop="programmingLanguage"]').first();
     const language = langEl.text().trim();
 
-    // Extract star count
+    // Extract total star count and stars gained in the period
     const starCount = this.parseStarCount(article);
+    const starsGained = this.parseStarsGained(article);
 
     return {
-      id: this.generateId(`${owner}-${repoName}`),
+      id: this.generateScopedId(`${owner}-${repoName}`, options),
       title: `${owner}/${repoName}`,
       source: 'GitHub',
       url: `https://github.com/${owner}/${repoName}`,
@@ -107,10 +175,21 @@ export class GitHubSource extends BaseSource {
       tags: language ? [language, 'GitHub Trending'] : ['GitHub Trending'],
       score: starCount,
       upvotes: starCount,
+      starsGained,
+      starsGainedSince: starsGained !== undefined ? since : undefined,
       author: owner,
     };
   }
 
+  /**
+   * Parse "1,234 stars today / this week / this month" from article element
+   */
+  private parseStarsGained(article: Cheerio<AnyNode>): number | undefined {
+    const text = article.text().replace(/\s+/g, ' ');
+    const match = text.match(/([\d,.]+[km]?)\s+stars?\s+(today|this week|this month)/i);
+    return match ? this.parseNumberWithSuffix(match[1]) : undefined;
+  }
+
   /**
    * Parse star count from article element
    */
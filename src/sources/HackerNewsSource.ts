@@ -3,8 +3,9 @@
  *   All rights reserved.
  */
 import { BaseSource, SourceFetchOptions } from './base/BaseSource';
-import { FeedItem, SourceType } from '../types/index';
+import { FeedItem, SourceType, HackerNewsFeed } from '../types/index';
 import { SourceRegistry } from './SourceRegistry';
+import { mapWithConcurrency } from '../utils/concurrency';
 
 /**
  * HackerNews API response type
@@ -20,58 +21,137 @@ interface HackerNewsItem {
   text: string | null;
 }
 
+/**
+ * Algolia HN Search API hit
+ */
+interface AlgoliaHit {
+  objectID: string;
+  title: string | null;
+  url: string | null;
+  author: string;
+  points: number | null;
+  num_comments: number | null;
+  created_at_i: number;
+  story_text: string | null;
+}
+
+interface AlgoliaResponse {
+  hits: AlgoliaHit[];
+}
+
+// Firebase list endpoints per feed type
+const FEED_ENDPOINTS: Record<Exclude<HackerNewsFeed, 'search'>, string> = {
+  top: 'topstories',
+  best: 'beststories',
+  new: 'newstories',
+  ask: 'askstories',
+  show: 'showstories',
+  job: 'jobstories',
+};
+
+// Max parallel item detail requests against the Firebase API
+const ITEM_FETCH_CONCURRENCY = 6;
+
 /**
  * Data source for HackerNews
+ * Options: `feed` (top/best/new/ask/show/job, or 'search' with `query` via Algolia) and `minScore`
  */
 export class HackerNewsSource extends BaseSource {
   readonly sourceName = 'HackerNews';
   private readonly apiBase = 'https://hacker-news.firebaseio.com/v0';
-  private readonly topStoriesUrl = `${this.apiBase}/topstories.json`;
+  private readonly searchUrl = 'https://hn.algolia.com/api/v1/search_by_date';
   protected defaultCount = 15;
 
   async fetch(options: SourceFetchOptions = {}): Promise<FeedItem[]> {
-    const count = options.count ?? this.defaultCount;
-    const minScore = options.minScore ?? 100;
+    const feed: HackerNewsFeed = options.feed ?? 'top';
 
     const items = await this.safeExecute(
-      async () => {
-        // Get top story IDs
-        const storiesResponse = await this.safeFetch(this.topStoriesUrl);
-        const storyIds: number[] = await storiesResponse.json();
-
-        // Fetch more stories to filter by score
-        const fetchCount = Math.min(count * 3, 100);
-        const topStoryIds = storyIds.slice(0, fetchCount);
-
-        // Fetch item details in parallel
-        const items = await Promise.all(
-          topStoryIds.map(async (id) => {
-            const response = await this.safeFetch(`${this.apiBase}/item/${id}.json`);
-            return await response.json() as HackerNewsItem;
-          })
-        );
-
-        // Filter and map items
-        return items
-          .filter((item) => item.score >= minScore)
-          .slice(0, count)
-          .map((item) => ({
-            id: this.generateId(item.id),
-            title: item.title,
-            source: this.sourceName as SourceType,
-            url: item.url || `https://news.ycombinator.com/item?id=${item.id}`,
-            summary: item.text ? this.cleanString(item.text, 200) : undefined,
-            publishedAt: this.parseTimestamp(item.time, 's'),
-            author: item.by,
-            score: item.score,
-            commentCount: item.descendants,
-          }));
-      },
-      []
+      () => (feed === 'search' ? this.fetchSearch(options) : this.fetchFeed(feed, options)),
+      [],
+      options
     );
 
     return items;
   }
+
+  /**
+   * Fetch a Firebase story list and its item details with bounded concurrency
+   */
+  private async fetchFeed(
+    feed: Exclude<HackerNewsFeed, 'search'>,
+    options: SourceFetchOptions
+  ): Promise<FeedItem[]> {
+    const count = options.count ?? this.defaultCount;
+    const minScore = options.minScore ?? 100;
+
+    // Get story IDs
+    const storiesResponse = await this.safeFetch(`${this.apiBase}/${FEED_ENDPOINTS[feed]}.json`, {}, options);
+    const storyIds: number[] = await storiesResponse.json();
+
+    // Fetch more stories to filter by score
+    const fetchCount = Math.min(count * 3, 100);
+    const candidateIds = storyIds.slice(0, fetchCount);
+
+    // Fetch item details with bounded concurrency
+    const items = await mapWithConcurrency(candidateIds, ITEM_FETCH_CONCURRENCY, async (id) => {
+      const response = await this.safeFetch(`${this.apiBase}/item/${id}.json`);
+      return await response.json() as HackerNewsItem | null;
+    });
+
+    // Filter and map items
+    return items
+      .filter((item): item is HackerNewsItem => !!item && (item.score ?? 0) >= minScore)
+      .slice(0, count)
+      .map((item) => ({
+        id: this.generateScopedId(item.id, options),
+        title: item.title,
+        source: this.sourceName as SourceType,
+        url: item.url || `https://news.ycombinator.com/item?id=${item.id}`,
+        commentsUrl: `https://news.ycombinator.com/item?id=${item.id}`,
+        summary: item.text ? this.cleanString(item.text, 200) : undefined,
+        publishedAt: this.parseTimestamp(item.time, 's'),
+        author: item.by,
+        score: item.score,
+        commentCount: item.descendants,
+      }));
+  }
+
+  /**
+   * Search recent stories via Algolia, filtered by points server-side
+   */
+  private async fetchSearch(options: SourceFetchOptions): Promise<FeedItem[]> {
+    const query: string = (options.query ?? '').trim();
+    if (!query) {
+      throw new Error('HackerNews search requires a query');
+    }
+
+    const count = options.count ?? this.defaultCount;
+    const minScore = options.minScore ?? 0;
+    const params = new URLSearchParams({
+      query,
+      tags: 'story',
+      numericFilters: `points>=${minScore}`,
+      hitsPerPage: String(count),
+    });
+
+    const response = await this.conditionalFetch(`${this.searchUrl}?${params.toString()}`, options);
+    const data: AlgoliaResponse = await response.json();
+
+    return data.hits
+      .filter((hit) => hit.title)
+      .map((hit) => ({
+        id: this.generateScopedId(hit.objectID, options),
+        title: hit.title!,
+        source: this.sourceName as SourceType,
+        url: hit.url || `https://news.ycombinator.com/item?id=${hit.objectID}`,
+        commentsUrl: `https://news.ycombinator.com/item?id=${hit.objectID}`,
+        summary: hit.story_text ? this.cleanString(this.stripHtml(hit.story_text), 200) : undefined,
+        publishedAt: this.parseTimestamp(hit.created_at_i, 's'),
+        author: hit.author,
+        score: hit.points ?? undefined,
+        commentCount: hit.num_comments ?? undefined,
+      }));
+  }
 }
 
 // Auto-register this source
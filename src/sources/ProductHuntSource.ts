@@ -6,6 +6,7 @@ import { BaseSource, SourceFetchOptions } from './base/BaseSource';
 import { FeedItem, SourceType } from '../types/index';
 import { SourceRegistry } from './SourceRegistry';
 import { logger } from '../utils/logger';
+import { hashString } from '../utils/hash';
 
 /**
  * RSS2JSON API response types
@@ -16,6 +17,7 @@ interface RSS2JSONItem {
   description: string;
   pubDate: string;
   author?: string;
+  guid?: string;
 }
 
 interface RSS2JSONResponse {
@@ -75,6 +77,7 @@ function parseRSSXML(xmlContent: string): RSS2JSONItem[] {
     description: item.querySelector('description')?.textContent || '',
     pubDate: item.querySelector('pubDate')?.textContent || '',
     author: item.querySelector('author')?.textContent || undefined,
+    guid: item.querySelector('guid')?.textContent || undefined,
   }));
 }
 
@@ -92,10 +95,11 @@ export class ProductHuntSource extends BaseSource {
 
     const items = await this.safeExecute(
       async () => {
-        const rssItems = await this.fetchWithFallback();
+        const rssItems = await this.fetchWithFallback(options);
 
-        return rssItems.slice(0, count).map((item, index) => ({
-          id: this.generateId(`${index}-${Date.now()}`),
+        return rssItems.slice(0, count).map((item) => ({
+          // 基于 guid/链接生成稳定 ID，避免每次刷新都产生新 ID
+          id: this.generateId(hashString(item.guid || item.link)),
           title: item.title,
           source: this.sourceName as SourceType,
           url: item.link,
@@ -104,7 +108,8 @@ export class ProductHuntSource extends BaseSource {
           author: item.author || 'Product Hunt',
         }));
       },
-      []
+      [],
+      options
     );
 
     return items;
@@ -114,13 +119,13 @@ export class ProductHuntSource extends BaseSource {
    * Fetch RSS data with fallback proxy support
    * Tries each proxy in order until one succeeds
    */
-  private async fetchWithFallback(): Promise<RSS2JSONItem[]> {
+  private async fetchWithFallback(options: SourceFetchOptions): Promise<RSS2JSONItem[]> {
     const errors: Error[] = [];
 
     for (const proxy of RSS_PROXIES) {
       try {
         const url = proxy.buildUrl(this.rssUrl);
-        const response = await this.safeFetch(url);
+        const response = await this.safeFetch(url, {}, options);
 
         // For allorigins and corsproxy, we need to handle text response
         if (proxy.url.includes('allorigins') || proxy.url.includes('corsproxy')) {
@@ -16,6 +16,7 @@ import {
   stripHtml,
 } from '../utils/xmlParser.ts';
 import { logger } from '../utils/logger.ts';
+import { hashString } from '../utils/hash.ts';
 
 interface RSSFetchOptions extends SourceFetchOptions {
   url?: string;
@@ -39,15 +40,12 @@ export class RSSSource extends BaseSource {
     const cutoffTime = Date.now() - TIME_RANGE_MS[timeRange];
     
     return this.safeExecute(async () => {
-      const response = await fetch(options.url!, {
+      const response = await this.conditionalFetch(options.url!, options, {
         headers: {
           'Accept': 'application/rss+xml, application/xml, text/xml, */*',
           'User-Agent': 'Mozilla/5.0 (compatible; InfoTrend/1.0)'
         }
       });
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
       const text = await response.text();
       
       // 使用 fast-xml-parser 解析 XML
@@ -68,6 +66,7 @@ export class RSSSource extends BaseSource {
         let link: string;
         let description: string;
         let pubDate: string;
+        let guid: string;
 
         if (isAtom) {
           // Atom 格式
@@ -76,6 +75,7 @@ export class RSSSource extends BaseSource {
           link = extractLink(atomItem.link);
           description = stripHtml(extractText(atomItem.summary || atomItem.content));
           pubDate = atomItem.published || atomItem.updated || '';
+          guid = extractText(atomItem.id);
         } else {
           // RSS 2.0 格式
           const rssItem = item as RSSItem;
@@ -83,6 +83,7 @@ export class RSSSource extends BaseSource {
           link = extractLink(rssItem.link);
           description = stripHtml(extractText(rssItem.description));
           pubDate = rssItem.pubDate || rssItem['dc:date'] || '';
+          guid = extractText(rssItem.guid);
         }
 
         // Parse date, fallback to current time if invalid
@@ -105,7 +106,7 @@ export class RSSSource extends BaseSource {
         }
 
         feedItems.push({
-          id: `rss-${options.url}-${index}`,
+          id: this.buildItemId(options.url!, guid, link),
           title: title,
           source: 'RSS',
           sourceName: options.sourceName,
@@ -116,6 +117,16 @@ export class RSSSource extends BaseSource {
       }
 
       return feedItems;
-    }, []);
+    }, [], options);
+  }
+
+  /**
+   * Build a stable item ID from guid / Atom id, falling back to the link
+   * Scoped by feed URL since some feeds use short non-unique guids (e.g. "123")
+   * Index-based IDs shift whenever a feed publishes a new post
+   */
+  private buildItemId(feedUrl: string, guid: string, link: string): string {
+    const key = guid || link;
+    return this.generateId(hashString(`${feedUrl}#${key}`));
   }
 }
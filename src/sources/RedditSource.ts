@@ -20,6 +20,8 @@ interface RedditPostData {
   score: number;
   num_comments: number;
   author: string;
+  subreddit: string;
+  link_flair_text?: string | null;
 }
 
 interface RedditChild {
@@ -33,18 +35,23 @@ interface RedditResponse {
 }
 
 /**
- * Data source for Reddit (MachineLearning subreddit)
+ * Data source for Reddit
+ * Options: `subreddits` (combined into one r/a+b request), `sort` (hot/top/new/rising),
+ * `timeWindow` (t= for top), `minScore` and `flairs` filters
  */
 export class RedditSource extends BaseSource {
   readonly sourceName = 'Reddit';
-  private readonly apiUrl = 'https://www.reddit.com/r/MachineLearning/hot.json';
+  private readonly apiBase = 'https://www.reddit.com/r';
+  private readonly defaultSubreddits = ['MachineLearning'];
 
   async fetch(options: SourceFetchOptions = {}): Promise<FeedItem[]> {
     const count = options.count ?? this.defaultCount;
+    const minScore: number = options.minScore ?? 0;
+    const flairs: string[] = (options.flairs ?? []).map((f: string) => f.trim().toLowerCase()).filter(Boolean);
 
     const items = await this.safeExecute(
       async () => {
-        const response = await this.safeFetch(this.apiUrl, {
+        const response = await this.conditionalFetch(this.buildUrl(options), options, {
           headers: {
             'User-Agent': 'Mozilla/5.0 (compatible; InfoTrendExtension/1.0)',
           },
@@ -53,15 +60,21 @@ export class RedditSource extends BaseSource {
 
         const posts = data.data.children
           .filter((post) => !post.data.is_self || post.data.selftext)
+          .filter((post) => post.data.score >= minScore)
+          .filter((post) =>
+            flairs.length === 0 ||
+            flairs.includes((post.data.link_flair_text ?? '').trim().toLowerCase())
+          )
           .slice(0, count);
 
         return posts.map((post) => ({
-          id: this.generateId(post.data.id),
+          id: this.generateScopedId(post.data.id, options),
           title: post.data.title,
           source: this.sourceName as SourceType,
           url: post.data.is_self
             ? `https://www.reddit.com${post.data.permalink}`
             : post.data.url,
+          commentsUrl: `https://www.reddit.com${post.data.permalink}`,
           summary: post.data.selftext
             ? this.cleanString(post.data.selftext, 300)
             : undefined,
@@ -69,14 +82,35 @@ export class RedditSource extends BaseSource {
           author: post.data.author,
           score: post.data.score,
           commentCount: post.data.num_comments,
-          tags: ['Machine Learning'],
+          tags: [`r/${post.data.subreddit}`, post.data.link_flair_text].filter(Boolean) as string[],
         }));
       },
-      []
+      [],
+      options
     );
 
     return items;
   }
+
+  /**
+   * Build listing URL, e.g. https://www.reddit.com/r/MachineLearning+LocalLLaMA/top.json?limit=30&t=week
+   * Fetches extra posts so score/flair filters still fill `count`
+   */
+  private buildUrl(options: SourceFetchOptions): string {
+    const subreddits: string[] = (options.subreddits ?? [])
+      .map((s: string) => s.trim().replace(/^\/?r\//i, ''))
+      .filter(Boolean);
+    const sort: string = options.sort ?? 'hot';
+    const count = options.count ?? this.defaultCount;
+
+    const params = new URLSearchParams({ limit: String(Math.min(count * 3, 100)) });
+    if (sort === 'top') {
+      params.set('t', options.timeWindow ?? 'day');
+    }
+
+    const path = (subreddits.length > 0 ? subreddits : this.defaultSubreddits).join('+');
+    return `${this.apiBase}/${path}/${sort}.json?${params.toString()}`;
+  }
 }
 
 // Auto-register this source
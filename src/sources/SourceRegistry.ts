@@ -2,7 +2,7 @@
  *   Copyright (c) 2025
  *   All rights reserved.
  */
-import { BaseSource, SourceFetchOptions } from './base/BaseSource.ts';
+import { BaseSource, SourceFetchOptions, NotModifiedError } from './base/BaseSource.ts';
 import { FeedItem } from '../types/index.ts';
 import { logger } from '../utils/logger.ts';
 
@@ -65,6 +65,8 @@ export class SourceRegistry {
    * @param name - Source name
    * @param options - Fetch options
    * @returns Promise<FeedItem[]> - Array of feed items or empty array on error
+   * @throws NotModifiedError if a conditional request was answered with 304
+   * @throws Error any fetch error when `options.throwOnError` is set
    */
   static async fetchFrom(name: string, options?: SourceFetchOptions): Promise<FeedItem[]> {
     const source = this.get(name);
@@ -75,6 +77,9 @@ export class SourceRegistry {
     try {
       return await source.fetch(options);
     } catch (error) {
+      if (error instanceof NotModifiedError || options?.throwOnError) {
+        throw error;
+      }
       logger.error(`Error fetching from ${name}:`, error);
       return [];
     }
@@ -5,16 +5,70 @@
 import { FeedItem } from '../../types/index';
 import { logger } from '../../utils/logger';
 
+/**
+ * HTTP validators for conditional requests
+ * Kept by the caller together with its cached items, so they always describe what was cached
+ */
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Successful response reported through `SourceFetchOptions.onResponse`
+ */
+export interface SourceResponseInfo {
+  url: string;
+  status: number;
+  /** Validators returned by a conditional fetch (absent when the server sends none) */
+  validators?: HttpValidators;
+}
+
 /**
  * Configuration for fetching data from a source
  */
 export interface SourceFetchOptions {
   /** Number of items to fetch */
   count?: number;
+  /** Send If-None-Match/If-Modified-Since with `validators` (caller has cached items to reuse on 304) */
+  conditional?: boolean;
+  /** Validators of the caller's cached items, sent when `conditional` is set */
+  validators?: HttpValidators;
+  /** Called after each successful request with its status and validators */
+  onResponse?: (info: SourceResponseInfo) => void;
+  /** Rethrow fetch errors instead of returning the fallback (used for source health tracking) */
+  throwOnError?: boolean;
+  /** Source instance ID (SourceConfig.id), used to namespace item IDs when a source has several instances */
+  instanceId?: string;
   /** Additional custom parameters */
   [key: string]: any;
 }
 
+/**
+ * Thrown when a conditional request returns 304 Not Modified
+ * Callers should reuse their cached items for this source
+ */
+export class NotModifiedError extends Error {
+  constructor(url: string) {
+    super(`Not modified: ${url}`);
+    this.name = 'NotModifiedError';
+  }
+}
+
+/**
+ * Thrown when a source endpoint answers with a non-2xx status
+ * Carries the HTTP status so callers can report it
+ */
+export class SourceHttpError extends Error {
+  readonly status: number;
+
+  constructor(sourceName: string, status: number, statusText: string) {
+    super(`${sourceName} API error: ${status} ${statusText}`);
+    this.name = 'SourceHttpError';
+    this.status = status;
+  }
+}
+
 /**
  * Base abstract class for all data sources
  * Provides common utilities and enforces consistent interface
@@ -37,17 +91,69 @@ export abstract class BaseSource {
    * Safe wrapper for fetch with error handling
    * @param url - URL to fetch
    * @param options - Fetch options
+   * @param sourceOptions - Source fetch options (reads `onResponse`)
    * @returns Promise<Response> - Fetch response
-   * @throws Error if response is not ok
+   * @throws SourceHttpError if response is not ok
    */
   protected async safeFetch(
     url: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    sourceOptions: SourceFetchOptions = {}
   ): Promise<Response> {
     const response = await fetch(url, options);
     if (!response.ok) {
-      throw new Error(`${this.sourceName} API error: ${response.status} ${response.statusText}`);
+      throw new SourceHttpError(this.sourceName, response.status, response.statusText);
+    }
+    sourceOptions.onResponse?.({ url, status: response.status });
+    return response;
+  }
+
+  /**
+   * Fetch with ETag/Last-Modified support
+   * When `options.conditional` is set, sends `options.validators` back so unchanged resources
+   * answer with 304 instead of the full body. Validators of successful responses are reported
+   * through `options.onResponse`; the caller stores them only once the new items are cached
+   * @param url - URL to fetch
+   * @param options - Source fetch options (reads `conditional`, `validators`, `onResponse`)
+   * @param init - Fetch options
+   * @returns Promise<Response> - Fetch response
+   * @throws NotModifiedError if the server answers 304
+   * @throws SourceHttpError if response is not ok
+   */
+  protected async conditionalFetch(
+    url: string,
+    options: SourceFetchOptions = {},
+    init: RequestInit = {}
+  ): Promise<Response> {
+    const headers = new Headers(init.headers);
+
+    if (options.conditional) {
+      if (options.validators?.etag) {
+        headers.set('If-None-Match', options.validators.etag);
+      }
+      if (options.validators?.lastModified) {
+        headers.set('If-Modified-Since', options.validators.lastModified);
+      }
+    }
+
+    const response = await fetch(url, { ...init, headers });
+    if (response.status === 304) {
+      throw new NotModifiedError(url);
+    }
+    if (!response.ok) {
+      throw new SourceHttpError(this.sourceName, response.status, response.statusText);
     }
+
+    const validators: HttpValidators = {
+      etag: response.headers.get('ETag') || undefined,
+      lastModified: response.headers.get('Last-Modified') || undefined,
+    };
+    options.onResponse?.({
+      url,
+      status: response.status,
+      validators: validators.etag || validators.lastModified ? validators : undefined,
+    });
+
     return response;
   }
 
@@ -55,15 +161,22 @@ export abstract class BaseSource {
    * Execute async operation with error handling
    * @param operation - Async operation to execute
    * @param fallback - Fallback value to return on error
+   * @param options - Source fetch options (reads `throwOnError`)
    * @returns Promise<T | null> - Operation result or fallback
+   * @throws NotModifiedError - passed through so callers can reuse their cache
+   * @throws Error - any error when `options.throwOnError` is set
    */
   protected async safeExecute<T>(
     operation: () => Promise<T>,
-    fallback: T
+    fallback: T,
+    options?: SourceFetchOptions
   ): Promise<T> {
     try {
       return await operation();
     } catch (error) {
+      if (error instanceof NotModifiedError || options?.throwOnError) {
+        throw error;
+      }
       logger.error(`${this.sourceName} error:`, error);
       return fallback;
     }
@@ -78,6 +191,19 @@ export abstract class BaseSource {
     return `${this.sourceName.toLowerCase()}-${identifier}`;
   }
 
+  /**
+   * Generate item ID namespaced by source instance
+   * Lets several configured instances of one source return the same upstream item without ID clashes
+   * @param identifier - Unique identifier (e.g., article ID)
+   * @param options - Source fetch options (reads `instanceId`)
+   * @returns string - Formatted ID (e.g., 'arxiv-arxiv-ai-2401.00001v1')
+   */
+  protected generateScopedId(identifier: string | number, options: SourceFetchOptions = {}): string {
+    return options.instanceId
+      ? this.generateId(`${options.instanceId}-${identifier}`)
+      : this.generateId(identifier);
+  }
+
   /**
    * Parse timestamp to ISO string (for Chrome Storage compatibility)
    * Chrome Storage serializes Date objects as objects, so we use ISO strings
@@ -2,5 +2,5 @@
  *   Copyright (c) 2025
  *   All rights reserved.
  */
-export { BaseSource } from './BaseSource';
-export type { SourceFetchOptions } from './BaseSource';
+export { BaseSource, NotModifiedError, SourceHttpError } from './BaseSource';
+export type { SourceFetchOptions, HttpValidators, SourceResponseInfo } from './BaseSource';
@@ -2,8 +2,8 @@
  *   Copyright (c) 2025
  *   All rights reserved.
  */
-export { BaseSource } from './base/BaseSource.ts';
-export type { SourceFetchOptions } from './base/BaseSource.ts';
+export { BaseSource, NotModifiedError, SourceHttpError } from './base/BaseSource.ts';
+export type { SourceFetchOptions, HttpValidators, SourceResponseInfo } from './base/BaseSource.ts';
 export { SourceRegistry, RegisterSource } from './SourceRegistry.ts';
 
 // Source classes
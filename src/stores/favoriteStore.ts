@@ -1,5 +1,7 @@
 import { create } from 'zustand';
-import { FavoriteItem } from '../types/favorite';
+import { FeedItem } from '../types/index';
+import { FavoriteItem, FavoriteSnapshot, createFavoriteSnapshot } from '../types/favorite';
+import { loadFavorites, saveFavorites, onFavoritesChanged } from '../services/favoritesStorage';
 import { logger } from '../utils/logger';
 
 interface FavoriteState {
@@ -8,9 +10,11 @@ interface FavoriteState {
   tagFilter: string | null;
   
   // Actions
-  toggleFavorite: (id: string, content: string, generateTags?: boolean) => Promise<void>;
-  setFavorite: (id: string, isFavorite: boolean) => void;
+  toggleFavorite: (item: FeedItem, content: string, generateTags?: boolean) => Promise<void>;
+  setFavorite: (item: FeedItem, isFavorite: boolean) => void;
   updateTags: (id: string, tags: string[], category: string) => void;
+  updateSnapshot: (item: FeedItem, persist?: boolean) => void;
+  syncSnapshots: (items: FeedItem[]) => void;
   regenerateTags: (id: string, content: string) => Promise<void>;
   setFavoriteFilter: (filter: 'all' | 'favorite' | 'non-favorite') => void;
   setTagFilter: (tag: string | null) => void;
@@ -23,7 +27,8 @@ export const useFavoriteStore = create<FavoriteState>((set, get) => ({
   favoriteFilter: 'all',
   tagFilter: null,
 
-  toggleFavorite: async (id: string, content: string, generateTags = false) => {
+  toggleFavorite: async (item: FeedItem, content: string, generateTags = false) => {
+    const { id } = item;
     const { favorites } = get();
     const existing = favorites.get(id);
     
@@ -42,6 +47,7 @@ export const useFavoriteStore = create<FavoriteState>((set, get) => ({
         category: 'Other',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        snapshot: createFavoriteSnapshot(item),
       };
       const newFavorites = new Map(favorites);
       newFavorites.set(id, newFavorite);
@@ -55,21 +61,22 @@ export const useFavoriteStore = create<FavoriteState>((set, get) => ({
     }
   },
 
-  setFavorite: (id: string, isFavorite: boolean) => {
+  setFavorite: (item: FeedItem, isFavorite: boolean) => {
     const { favorites } = get();
     const newFavorites = new Map(favorites);
     
     if (isFavorite) {
-      newFavorites.set(id, {
-        id,
+      newFavorites.set(item.id, {
+        id: item.id,
         isFavorite: true,
         tags: [],
         category: 'Other',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        snapshot: createFavoriteSnapshot(item),
       });
     } else {
-      newFavorites.delete(id);
+      newFavorites.delete(item.id);
     }
     
     set({ favorites: newFavorites });
@@ -93,6 +100,53 @@ export const useFavoriteStore = create<FavoriteState>((set, get) => ({
     }
   },
 
+  updateSnapshot: (item: FeedItem, persist = true) => {
+    const { favorites } = get();
+    const existing = favorites.get(item.id);
+    if (!existing) return;
+
+    const newFavorites = new Map(favorites);
+    newFavorites.set(item.id, {
+      ...existing,
+      snapshot: createFavoriteSnapshot(item),
+      updatedAt: Date.now(),
+    });
+    set({ favorites: newFavorites });
+    // 流式更新摘要时只更新内存，结束后再持久化
+    if (persist) {
+      get().saveToStorage();
+    }
+  },
+
+  syncSnapshots: (items: FeedItem[]) => {
+    const { favorites } = get();
+    if (favorites.size === 0) return;
+
+    let changed = false;
+    const newFavorites = new Map(favorites);
+
+    items.forEach((item) => {
+      const existing = favorites.get(item.id);
+      if (!existing) return;
+
+      const liveSnapshot = createFavoriteSnapshot(item);
+      // 保留快照中已有的 AI 摘要，避免被没有摘要的新数据覆盖
+      const snapshot: FavoriteSnapshot = {
+        ...liveSnapshot,
+        aiSummary: liveSnapshot.aiSummary || existing.snapshot?.aiSummary,
+      };
+      if (JSON.stringify(snapshot) !== JSON.stringify(existing.snapshot)) {
+        newFavorites.set(item.id, { ...existing, snapshot });
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      set({ favorites: newFavorites });
+      get().saveToStorage();
+    }
+  },
+
   regenerateTags: async (id: string, content: string) => {
     // 导入 AI 服务 - 动态导入避免循环依赖
     const { generateTags } = await import('../services/aiService');
@@ -117,13 +171,8 @@ export const useFavoriteStore = create<FavoriteState>((set, get) => ({
 
   loadFromStorage: async () => {
     try {
-      const result = await chrome.storage.local.get('favorites');
-      const favoritesData = result.favorites;
-      
-      if (favoritesData && Array.isArray(favoritesData)) {
-        const favorites = new Map(favoritesData.map((item: FavoriteItem) => [item.id, item]));
-        set({ favorites });
-      }
+      const favoritesData = await loadFavorites();
+      set({ favorites: new Map(favoritesData.map((item: FavoriteItem) => [item.id, item])) });
     } catch (error) {
       logger.error('Failed to load favorites from storage:', error);
     }
@@ -132,9 +181,7 @@ export const useFavoriteStore = create<FavoriteState>((set, get) => ({
   saveToStorage: async () => {
     const { favorites } = get();
     try {
-      await chrome.storage.local.set({
-        favorites: Array.from(favorites.values()),
-      });
+      await saveFavorites(Array.from(favorites.values()));
     } catch (error) {
       logger.error('Failed to save favorites to storage:', error);
     }
@@ -143,3 +190,8 @@ export const useFavoriteStore = create<FavoriteState>((set, get) => ({
 
 // 初始化时加载数据
 useFavoriteStore.getState().loadFromStorage();
+
+// 后台（规则自动收藏、条目 ID 迁移）或其他页面修改收藏后同步到内存，避免之后保存时被旧数据覆盖
+onFavoritesChanged((favorites) => {
+  useFavoriteStore.setState({ favorites: new Map(favorites.map(item => [item.id, item])) });
+});
@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { FeedItem } from '../types/index';
+import { InterestProfile, InterestSignal } from '../types/interest';
+import { applySignal, createEmptyProfile, scoreItem } from '../services/interestModel';
+import { logger } from '../utils/logger';
+
+// 存储键名
+const INTEREST_PROFILE_KEY = 'interest_profile';
+
+interface InterestState {
+  profile: InterestProfile;
+
+  // Actions
+  record: (item: FeedItem, signal: InterestSignal) => void;
+  score: (item: FeedItem) => number;
+  reset: () => Promise<void>;
+  loadFromStorage: () => Promise<void>;
+  saveToStorage: () => Promise<void>;
+}
+
+export const useInterestStore = create<InterestState>((set, get) => ({
+  profile: createEmptyProfile(),
+
+  record: (item: FeedItem, signal: InterestSignal) => {
+    set({ profile: applySignal(get().profile, item, signal) });
+    get().saveToStorage();
+  },
+
+  score: (item: FeedItem) => scoreItem(get().profile, item),
+
+  reset: async () => {
+    set({ profile: createEmptyProfile() });
+    await get().saveToStorage();
+  },
+
+  loadFromStorage: async () => {
+    try {
+      const result = await chrome.storage.local.get(INTEREST_PROFILE_KEY);
+      const profile = result[INTEREST_PROFILE_KEY] as InterestProfile | undefined;
+      set({ profile: profile?.terms ? profile : createEmptyProfile() });
+    } catch (error) {
+      logger.error('Failed to load interest profile from storage:', error);
+    }
+  },
+
+  saveToStorage: async () => {
+    try {
+      await chrome.storage.local.set({ [INTEREST_PROFILE_KEY]: get().profile });
+    } catch (error) {
+      logger.error('Failed to save interest profile to storage:', error);
+    }
+  },
+}));
@@ -0,0 +1,153 @@
+import { create } from 'zustand';
+import { ReadStateEntry, ReadStatus } from '../types/readState';
+import { logger } from '../utils/logger';
+
+// 存储键名
+const READ_STATE_KEY = 'read_state';
+
+// 不在当前 feed 中的记录保留时长：30 天
+const ENTRY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface ReadStateState {
+  entries: Map<string, ReadStateEntry>;
+  hideRead: boolean;
+  // 本次打开侧边栏的时间，之后首次出现的条目视为新内容
+  visitStartedAt: number;
+  // 本次访问前是否已有阅读记录（首次使用时不显示“新内容”分隔线）
+  hasHistory: boolean;
+  loaded: boolean;
+
+  // Actions
+  trackItems: (ids: string[]) => void;
+  markOpened: (id: string) => void;
+  dismiss: (id: string) => void;
+  markAllRead: (ids: string[]) => void;
+  setHideRead: (hideRead: boolean) => void;
+  isRead: (id: string) => boolean;
+  isNew: (id: string) => boolean;
+  loadFromStorage: () => Promise<void>;
+  saveToStorage: () => Promise<void>;
+}
+
+export const useReadStateStore = create<ReadStateState>((set, get) => {
+  // 更新一组条目的状态并持久化
+  const setStatus = (ids: string[], status: ReadStatus, shouldUpdate: (entry?: ReadStateEntry) => boolean) => {
+    const { entries } = get();
+    const now = Date.now();
+    const newEntries = new Map(entries);
+    let changed = false;
+
+    ids.forEach((id) => {
+      const existing = entries.get(id);
+      if (!shouldUpdate(existing)) return;
+      newEntries.set(id, {
+        id,
+        firstSeenAt: existing?.firstSeenAt ?? now,
+        status,
+        updatedAt: now,
+      });
+      changed = true;
+    });
+
+    if (changed) {
+      set({ entries: newEntries });
+      get().saveToStorage();
+    }
+  };
+
+  return {
+    entries: new Map(),
+    hideRead: false,
+    visitStartedAt: Date.now(),
+    hasHistory: false,
+    loaded: false,
+
+    trackItems: (ids: string[]) => {
+      const { entries } = get();
+      const now = Date.now();
+      const currentIds = new Set(ids);
+      const newEntries = new Map<string, ReadStateEntry>();
+      let changed = false;
+
+      // 清理已离开 feed 且长期未更新的记录
+      entries.forEach((entry, id) => {
+        if (currentIds.has(id) || now - entry.updatedAt < ENTRY_RETENTION_MS) {
+          newEntries.set(id, entry);
+        } else {
+          changed = true;
+        }
+      });
+
+      ids.forEach((id) => {
+        if (!newEntries.has(id)) {
+          newEntries.set(id, { id, firstSeenAt: now, updatedAt: now });
+          changed = true;
+        }
+      });
+
+      if (changed) {
+        set({ entries: newEntries });
+        get().saveToStorage();
+      }
+    },
+
+    markOpened: (id: string) => {
+      setStatus([id], 'opened', (entry) => entry?.status !== 'opened');
+    },
+
+    dismiss: (id: string) => {
+      setStatus([id], 'dismissed', (entry) => entry?.status !== 'dismissed');
+    },
+
+    markAllRead: (ids: string[]) => {
+      // 只标记未读条目，不覆盖已打开/已忽略状态
+      setStatus(ids, 'seen', (entry) => !entry?.status);
+    },
+
+    setHideRead: (hideRead: boolean) => {
+      set({ hideRead });
+      get().saveToStorage();
+    },
+
+    isRead: (id: string) => !!get().entries.get(id)?.status,
+
+    isNew: (id: string) => {
+      const { entries, hasHistory, visitStartedAt } = get();
+      const entry = entries.get(id);
+      return hasHistory && !!entry && !entry.status && entry.firstSeenAt >= visitStartedAt;
+    },
+
+    loadFromStorage: async () => {
+      try {
+        const result = await chrome.storage.local.get(READ_STATE_KEY);
+        const data = result[READ_STATE_KEY] as { entries?: ReadStateEntry[]; hideRead?: boolean } | undefined;
+        const entries: ReadStateEntry[] = Array.isArray(data?.entries) ? data.entries : [];
+        const { loaded, hasHistory } = get();
+
+        set({
+          entries: new Map(entries.map((entry) => [entry.id, entry])),
+          hideRead: !!data?.hideRead,
+          // 只在首次加载时判断，之后的重新加载不改变本次访问的基准
+          hasHistory: loaded ? hasHistory : entries.length > 0,
+          loaded: true,
+        });
+      } catch (error) {
+        logger.error('Failed to load read state from storage:', error);
+      }
+    },
+
+    saveToStorage: async () => {
+      const { entries, hideRead } = get();
+      try {
+        await chrome.storage.local.set({
+          [READ_STATE_KEY]: {
+            entries: Array.from(entries.values()),
+            hideRead,
+          },
+        });
+      } catch (error) {
+        logger.error('Failed to save read state to storage:', error);
+      }
+    },
+  };
+});
@@ -0,0 +1,24 @@
+import { FeedItem } from './index';
+
+// 热度指标（分数、评论数、点赞/star 数），来源不提供的指标为空
+export interface ScoreValues {
+  score?: number;
+  commentCount?: number;
+  upvotes?: number;
+}
+
+// 某次抓取时条目的热度指标
+// 合并条目的总分随来源加入或离开而变化，sources 按来源（SourceConfig id）分别记录，用于只比较同一来源的增长
+export interface ScoreSnapshot extends ScoreValues {
+  at: number;
+  sources?: Record<string, ScoreValues>;
+}
+
+// 历史归档中的条目（按条目 ID 去重，每次抓取更新为最新数据）
+export interface ArchivedItem {
+  id: string;
+  item: FeedItem;
+  firstSeen: number; // 首次抓取时间
+  lastSeen: number; // 最近一次抓取时间
+  scoreHistory: ScoreSnapshot[]; // 每次抓取的热度记录（按时间顺序）
+}
@@ -0,0 +1,24 @@
+import { FeedItem } from './index';
+
+// 对话范围：单条内容，或当前整个信息流
+export type ChatScope =
+  | { type: 'item'; item: FeedItem }
+  | { type: 'feed' };
+
+// 回答中引用的条目，index 对应回答中的 [n]
+export interface ChatReference {
+  index: number;
+  id: string;
+  title: string;
+  url: string;
+  source: string;
+}
+
+// 对话中的一条消息
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  references?: ChatReference[];
+  error?: boolean; // 生成失败的回答，不计入后续上下文
+}
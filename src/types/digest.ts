@@ -0,0 +1,23 @@
+// 简报中引用的条目
+export interface DigestLink {
+  id: string;
+  title: string;
+  url: string;
+  source: string;
+}
+
+// 按主题分组的简报段落
+export interface DigestGroup {
+  theme: string;
+  takeaway: string; // 两句话要点
+  links: DigestLink[];
+}
+
+// 每日简报（按日期存储）
+export interface Digest {
+  date: string; // YYYY-MM-DD
+  generatedAt: number;
+  language: string;
+  itemCount: number; // 参与生成的条目数
+  groups: DigestGroup[];
+}
@@ -1,3 +1,18 @@
+import { FeedItem, SourceType } from './index';
+
+// 收藏时保存的条目快照
+// 条目被 maxItems 裁剪或下次刷新后离开 feed 时，仍可以从快照中展示
+export interface FavoriteSnapshot {
+  title: string;
+  url: string;
+  source: SourceType;
+  sourceName?: string;
+  summary?: string;
+  aiSummary?: string;
+  author?: string;
+  publishedAt?: string; // ISO 字符串，兼容 Chrome Storage 序列化
+}
+
 // 收藏项接口
 export interface FavoriteItem {
   id: string;
@@ -6,6 +21,7 @@ export interface FavoriteItem {
   category: string;
   createdAt: number;
   updatedAt: number;
+  snapshot?: FavoriteSnapshot; // 旧版本收藏没有快照，会在条目再次出现在 feed 中时补全
 }
 
 // AI 标签响应接口
@@ -34,3 +50,32 @@ export const categoryLabels: Record<ContentCategory, string> = {
   Tutorial: '教程',
   Other: '其他',
 };
+
+// 从 FeedItem 创建收藏快照
+export function createFavoriteSnapshot(item: FeedItem): FavoriteSnapshot {
+  const publishedAt = item.publishedAt instanceof Date
+    ? item.publishedAt.toISOString()
+    : item.publishedAt;
+
+  return {
+    title: item.title,
+    url: item.url,
+    source: item.source,
+    sourceName: item.sourceName,
+    summary: item.summary,
+    aiSummary: item.aiSummary,
+    author: item.author,
+    publishedAt,
+  };
+}
+
+// 将收藏快照还原为 FeedItem，没有快照的旧收藏返回 null
+export function favoriteToFeedItem(favorite: FavoriteItem): FeedItem | null {
+  if (!favorite.snapshot) {
+    return null;
+  }
+  return {
+    id: favorite.id,
+    ...favorite.snapshot,
+  };
+}
@@ -30,6 +30,7 @@ export interface FeedItem {
   title: string;
   source: SourceType;
   sourceName?: string; // e.g. "Lil's Blog" for RSS
+  sourceId?: string; // 来源 SourceConfig 的 id
   url: string;
   summary?: string;
   publishedAt?: Date | string; // 可选，某些数据源（如 GitHub Trending）不提供时间
@@ -42,8 +43,44 @@ export interface FeedItem {
   commentCount?: number; // 评论数
   upvotes?: number; // 点赞数
   isPinned?: boolean; // 是否置顶
+  starsGained?: number; // 周期内新增 star（GitHub Trending）
+  starsGainedSince?: GitHubTrendingSince; // starsGained 对应的周期
+  commentsUrl?: string; // 讨论页链接（HN / Reddit）
+  mergedSources?: MergedSource[]; // 跨来源合并后的全部来源（含主条目）
+  highlighted?: boolean; // 命中高亮规则
+  ruleBoost?: number; // 命中的加权规则数，排序时靠前
+  fetchedAt?: number; // 数据实际抓取时间（使用缓存或 304 时保持原抓取时间）
 }
 
+// 合并条目中的单个来源
+export interface MergedSource {
+  itemId: string;
+  source: SourceType;
+  sourceName?: string;
+  sourceId?: string;
+  url: string;
+  commentsUrl?: string;
+  score?: number;
+  commentCount?: number;
+  upvotes?: number;
+}
+
+// AI 服务提供方
+export type LLMProvider = 'openai' | 'anthropic' | 'gemini' | 'ollama';
+
+// 侧边栏排序模式
+export type RankingMode = 'hot' | 'newest' | 'discussed' | 'personalized';
+
+// GitHub Trending 周期
+export type GitHubTrendingSince = 'daily' | 'weekly' | 'monthly';
+
+// Hacker News 列表类型（search 为 Algolia 关键词搜索）
+export type HackerNewsFeed = 'top' | 'best' | 'new' | 'ask' | 'show' | 'job' | 'search';
+
+// Reddit 排序方式与 top 时间窗口
+export type RedditSort = 'hot' | 'top' | 'new' | 'rising';
+export type RedditTimeWindow = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
 // 数据源配置接口 - 增强版
 export interface SourceConfig {
   id: string; // 唯一标识
@@ -59,15 +96,65 @@ export interface SourceConfig {
   description?: string; // 数据源描述
   color?: string; // 主题色
   isPinned?: boolean; // 是否置顶
+  // ArXiv 配置
+  arxivQuery?: string; // 原始 search_query，设置后忽略分类和关键词
+  arxivCategories?: string[]; // 分类，如 cs.AI、stat.ML
+  arxivKeywords?: string; // 关键词，逗号分隔
+  // Reddit 配置（minScore 共用）
+  subreddits?: string[]; // 子版块，不含 r/ 前缀
+  redditSort?: RedditSort; // 排序方式
+  redditTimeWindow?: RedditTimeWindow; // top 排序的时间窗口
+  redditFlairs?: string[]; // 仅保留这些 flair 的帖子
+  // Hacker News 配置（minScore 共用）
+  hnFeed?: HackerNewsFeed; // 列表类型
+  hnQuery?: string; // 搜索关键词（hnFeed 为 search 时使用）
+  // GitHub Trending 配置
+  githubSince?: GitHubTrendingSince; // 统计周期
+  githubLanguages?: string[]; // 编程语言（每种语言单独抓取后合并）
+  githubSpokenLanguage?: string; // 自然语言代码，如 en、zh
+}
+
+// 关键词规则
+export type RuleField = 'any' | 'title' | 'summary' | 'author' | 'source' | 'tags';
+export type RuleMatchType = 'text' | 'regex';
+export type RuleAction = 'hide' | 'highlight' | 'favorite' | 'boost';
+
+export interface FeedRule {
+  id: string;
+  enabled: boolean;
+  field: RuleField; // 匹配字段
+  matchType: RuleMatchType; // 纯文本包含或正则
+  pattern: string;
+  caseSensitive?: boolean;
+  action: RuleAction; // 屏蔽 / 高亮 / 自动收藏 / 加权
+}
+
+// AI prompt 模板（为空时使用内置默认模板）
+export type PromptTemplateKind = 'summary' | 'tags' | 'recommendations';
+
+export interface PromptTemplates {
+  summary?: string;
+  tags?: string;
+  recommendations?: string;
+  summaryOverrides?: Partial<Record<SourceType, string>>; // 按来源类型覆盖摘要模板
 }
 
 // 应用配置接口
 export interface AppConfig {
   sources: SourceConfig[];
-  // API 配置 - 支持任意 OpenAI 兼容服务
+  rules?: FeedRule[]; // 关键词屏蔽/高亮规则
+  // API 配置 - 支持 OpenAI 兼容服务及 Anthropic、Gemini、Ollama 原生接口
+  apiProvider?: LLMProvider; // 默认 openai（OpenAI 兼容）
   apiBaseUrl?: string; // API Base URL，如 https://api.openai.com/v1
   apiKey?: string; // API Key
   apiModel?: string; // 模型名称，如 gpt-4o-mini
+  embeddingModel?: string; // 语义搜索的向量模型，为空时使用服务商默认模型
+  summaryConcurrency?: number; // 批量摘要并发数
+  summaryContextTokens?: number; // 摘要时附带的正文 token 预算（0 表示不下载正文）
+  dailyRequestBudget?: number; // 每日 AI 请求上限（0 或为空表示不限）
+  dailyTokenBudget?: number; // 每日 AI token 上限（0 或为空表示不限）
+  promptTemplates?: PromptTemplates; // 自定义 prompt 模板
+  archiveRetentionDays?: number; // 历史归档保留天数（0 表示永久保留）
   theme: 'light' | 'dark';
   maxItems: number;
 }
@@ -83,6 +170,7 @@ export const defaultSources: SourceConfig[] = [
     icon: '🐙',
     category: 'dev',
     fetchCount: 10,
+    githubSince: 'daily',
     color: '#24292e'
   },
   { 
@@ -94,6 +182,7 @@ export const defaultSources: SourceConfig[] = [
     category: 'news',
     fetchCount: 15,
     minScore: 100,
+    hnFeed: 'top',
     color: '#ff6600'
   },
   { 
@@ -104,6 +193,7 @@ export const defaultSources: SourceConfig[] = [
     icon: '📄',
     category: 'research',
     fetchCount: 10,
+    arxivCategories: ['cs.AI', 'cs.LG', 'cs.CL'],
     color: '#b31b1b'
   },
   { 
@@ -124,6 +214,8 @@ export const defaultSources: SourceConfig[] = [
     icon: '🤖',
     category: 'ai',
     fetchCount: 10,
+    subreddits: ['MachineLearning'],
+    redditSort: 'hot',
     color: '#ff4500'
   },
   { 
@@ -0,0 +1,24 @@
+// 兴趣信号：打开原文、收藏、取消收藏、忽略
+export type InterestSignal = 'open' | 'favorite' | 'unfavorite' | 'dismiss';
+
+// 单个特征（标题词、标签、来源）的累计权重
+export interface InterestTerm {
+  positive: number;
+  negative: number;
+  updatedAt: number;
+}
+
+// 本地兴趣画像，完全保存在 chrome.storage 中
+export interface InterestProfile {
+  terms: Record<string, InterestTerm>;
+  interactions: number; // 已学习的交互次数
+  updatedAt: number;
+}
+
+// 画像中的高权重特征（用于设置页展示）
+export interface InterestTermWeight {
+  term: string;
+  weight: number;
+  positive: number;
+  negative: number;
+}
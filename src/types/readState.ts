@@ -0,0 +1,11 @@
+// 条目阅读状态
+// seen: 已读（手动标记或“全部标为已读”）；opened: 已打开原文；dismissed: 已忽略，不再显示
+export type ReadStatus = 'seen' | 'opened' | 'dismissed';
+
+// 单个条目的阅读记录
+export interface ReadStateEntry {
+  id: string;
+  firstSeenAt: number; // 首次出现在侧边栏的时间，用于“上次访问后的新内容”
+  status?: ReadStatus; // 为空表示未读
+  updatedAt: number;
+}
@@ -0,0 +1,23 @@
+import { FeedItem } from './index';
+
+// 批量摘要任务状态
+export type SummaryTaskStatus = 'pending' | 'running' | 'done' | 'skipped' | 'error';
+
+// 队列停止原因：预算用尽、API 未配置、用户取消
+export type SummaryQueueStopReason = 'budget' | 'api_not_configured' | 'cancelled';
+
+// 单个摘要任务
+export interface SummaryTask {
+  id: string;
+  item: FeedItem;
+  status: SummaryTaskStatus;
+  summary?: string;
+  error?: string;
+}
+
+// 批量摘要队列（由后台 service worker 持有并持久化）
+export interface SummaryQueueState {
+  tasks: SummaryTask[];
+  stoppedReason?: SummaryQueueStopReason;
+  updatedAt: number;
+}
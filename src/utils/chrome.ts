@@ -47,6 +47,56 @@ export const safeStorageSet = (items: Record<string, any>): Promise<void> => {
   });
 };
 
+export const safeStorageRemove = (keys: string[]): Promise<void> => {
+  return new Promise((resolve) => {
+    if (isChromeExtension() && chrome.storage) {
+      chrome.storage.local.remove(keys, resolve);
+    } else {
+      // Dev environment fallback to localStorage
+      keys.forEach(key => localStorage.removeItem(key));
+      resolve();
+    }
+  });
+};
+
+export const safeStorageGetAll = (): Promise<Record<string, unknown>> => {
+  return new Promise((resolve) => {
+    if (isChromeExtension() && chrome.storage) {
+      chrome.storage.local.get(null, resolve);
+    } else {
+      // Dev environment fallback to localStorage
+      const result: Record<string, unknown> = {};
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key) continue;
+        const value = localStorage.getItem(key);
+        try {
+          result[key] = value === null ? value : JSON.parse(value);
+        } catch {
+          result[key] = value;
+        }
+      }
+      resolve(result);
+    }
+  });
+};
+
+export const safeStorageBytesInUse = (): Promise<number> => {
+  return new Promise((resolve) => {
+    if (isChromeExtension() && chrome.storage) {
+      chrome.storage.local.getBytesInUse(null, resolve);
+    } else {
+      // Dev environment estimate from localStorage
+      let bytes = 0;
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i) || '';
+        bytes += key.length + (localStorage.getItem(key) || '').length;
+      }
+      resolve(bytes);
+    }
+  });
+};
+
 export const safeStorageClear = (): Promise<void> => {
   return new Promise((resolve) => {
     if (isChromeExtension() && chrome.storage) {
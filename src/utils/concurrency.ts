@@ -0,0 +1,35 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * 并发控制工具
+ */
+
+/**
+ * 以有限并发执行异步映射，结果顺序与输入一致
+ * 任一任务失败时整体 reject（与 Promise.all 一致）
+ * @param items - 输入列表
+ * @param limit - 最大并发数
+ * @param mapper - 异步映射函数
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
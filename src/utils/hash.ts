@@ -0,0 +1,34 @@
+/*
+ *   Copyright (c) 2025 InfoTrend Contributors
+ *   All rights reserved.
+ */
+
+/**
+ * String hashing utilities
+ * Used to derive stable, compact identifiers from content (guid, link, ...)
+ */
+
+/**
+ * Hash a string into a short base36 identifier (cyrb53, 53-bit)
+ * Not cryptographic - only meant for stable IDs and cache keys
+ * @param input - String to hash
+ * @returns string - Base36 encoded hash
+ */
+export function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(36);
+}
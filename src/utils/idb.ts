@@ -0,0 +1,116 @@
+/*
+ *   Copyright (c) 2025 InfoTrend Contributors
+ *   All rights reserved.
+ */
+
+/**
+ * IndexedDB utilities
+ * Thin promise wrappers around the IndexedDB API, shared by the side panel,
+ * options page and background worker (all of which have IndexedDB)
+ */
+
+/**
+ * Wrap an IDBRequest in a promise
+ * @param request - Request to wait for
+ * @returns Promise<T> - Request result
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction commits
+ * @param transaction - Transaction to wait for
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * Open (and create or upgrade) a database
+ * @param name - Database name
+ * @param version - Schema version
+ * @param upgrade - Called on first open and on version upgrades
+ * @returns Promise<IDBDatabase>
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> {
+  const request = indexedDB.open(name, version);
+  request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+  return requestToPromise(request);
+}
+
+/**
+ * Read a single record by key
+ */
+export async function idbGet<T>(db: IDBDatabase, storeName: string, key: IDBValidKey): Promise<T | undefined> {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return requestToPromise(store.get(key) as IDBRequest<T | undefined>);
+}
+
+/**
+ * Read all records in a store
+ */
+export async function idbGetAll<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return requestToPromise(store.getAll() as IDBRequest<T[]>);
+}
+
+/**
+ * Write records in a single transaction (stores with a keyPath)
+ */
+export async function idbPutMany<T>(db: IDBDatabase, storeName: string, values: T[]): Promise<void> {
+  if (values.length === 0) return;
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  values.forEach(value => store.put(value));
+  await transactionDone(transaction);
+}
+
+/**
+ * Delete records by key in a single transaction
+ */
+export async function idbDeleteMany(db: IDBDatabase, storeName: string, keys: IDBValidKey[]): Promise<void> {
+  if (keys.length === 0) return;
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  keys.forEach(key => store.delete(key));
+  await transactionDone(transaction);
+}
+
+/**
+ * Read records through an index (optionally within a key range)
+ */
+export async function idbGetAllByIndex<T>(
+  db: IDBDatabase,
+  storeName: string,
+  indexName: string,
+  query?: IDBKeyRange | null,
+  count?: number
+): Promise<T[]> {
+  const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName);
+  return requestToPromise(index.getAll(query, count) as IDBRequest<T[]>);
+}
+
+/**
+ * Read primary keys through an index (optionally within a key range)
+ */
+export async function idbGetAllKeysByIndex(
+  db: IDBDatabase,
+  storeName: string,
+  indexName: string,
+  query?: IDBKeyRange | null
+): Promise<IDBValidKey[]> {
+  const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName);
+  return requestToPromise(index.getAllKeys(query));
+}
@@ -0,0 +1,169 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+import { SourceConfig, SourceCategory, categoryLabels, getSourceIcon } from '../types/index.ts';
+import { parseXML, ensureArray } from './xmlParser.ts';
+
+/**
+ * OPML 工具模块
+ * 解析 / 生成 OPML 2.0 订阅列表，用于在阅读器之间迁移 RSS 订阅
+ */
+
+// OPML 中的一个订阅条目
+export interface OpmlFeed {
+  title: string;
+  xmlUrl: string;
+  htmlUrl?: string;
+  category?: string;          // 原始分类（category 属性或所在文件夹名）
+}
+
+interface OpmlOutlineNode {
+  '@_text'?: string;
+  '@_title'?: string;
+  '@_type'?: string;
+  '@_xmlUrl'?: string;
+  '@_htmlUrl'?: string;
+  '@_category'?: string;
+  outline?: OpmlOutlineNode | OpmlOutlineNode[];
+}
+
+interface OpmlParsedResult {
+  opml?: {
+    head?: { title?: string };
+    body?: { outline?: OpmlOutlineNode | OpmlOutlineNode[] };
+  };
+}
+
+/**
+ * 解析 OPML 文本，展开嵌套文件夹，返回所有带 xmlUrl 的订阅
+ * @throws Error 如果不是合法的 OPML 文档
+ */
+export function parseOPML(xml: string): OpmlFeed[] {
+  const parsed = parseXML<OpmlParsedResult>(xml);
+  if (!parsed?.opml?.body) {
+    throw new Error('Invalid OPML document');
+  }
+
+  const feeds: OpmlFeed[] = [];
+  const walk = (nodes: OpmlOutlineNode[], folder?: string) => {
+    for (const node of nodes) {
+      const title = node['@_title'] || node['@_text'] || '';
+      const xmlUrl = node['@_xmlUrl']?.trim();
+      if (xmlUrl) {
+        feeds.push({
+          title: title || xmlUrl,
+          xmlUrl,
+          htmlUrl: node['@_htmlUrl'],
+          category: node['@_category'] || folder,
+        });
+      }
+      if (node.outline) {
+        walk(ensureArray(node.outline), title || folder);
+      }
+    }
+  };
+  walk(ensureArray(parsed.opml.body.outline));
+
+  return feeds;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * 生成 OPML 2.0 文本（仅包含有 URL 的 RSS 数据源）
+ */
+export function buildOPML(sources: SourceConfig[], title = 'InfoTrend Subscriptions'): string {
+  const outlines = sources
+    .filter((s) => s.type === 'RSS' && s.url)
+    .map((s) =>
+      `    <outline type="rss" text="${escapeXml(s.name)}" title="${escapeXml(s.name)}" ` +
+      `xmlUrl="${escapeXml(s.url!)}" category="${escapeXml(s.category)}"/>`
+    );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...outlines,
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+}
+
+// 待导入的数据源；originalCategory 为无法识别、被归为 news 的原始分类，供预览时提示和修改
+export interface OpmlImportEntry {
+  source: SourceConfig;
+  originalCategory?: string;
+}
+
+/**
+ * 将 OPML 分类映射为 SourceCategory
+ * 支持 "ai"、"AI/ML" 以及 "/Tech/AI" 这类路径写法，无法识别时返回 undefined
+ */
+export function matchSourceCategory(category?: string): SourceCategory | undefined {
+  if (!category) return undefined;
+
+  const candidates = [category, ...category.split(/[/,]/)]
+    .map((c) => c.trim().toLowerCase())
+    .filter(Boolean);
+  const entries = Object.entries(categoryLabels) as [SourceCategory, string][];
+
+  for (const candidate of candidates) {
+    const match = entries.find(
+      ([value, label]) => value === candidate || label.toLowerCase() === candidate
+    );
+    if (match) return match[0];
+  }
+  return undefined;
+}
+
+// URL 归一化（仅用于去重比较）
+function normalizeFeedUrl(url: string): string {
+  return url.trim().toLowerCase().replace(/\/+$/, '');
+}
+
+/**
+ * 将 OPML 订阅转换为待添加的 RSS 数据源
+ * 已存在的 URL 以及文件内重复的 URL 会被跳过；无法识别的分类归为 news 并保留原始分类
+ */
+export function opmlFeedsToSources(feeds: OpmlFeed[], existing: SourceConfig[]): OpmlImportEntry[] {
+  const seen = new Set(
+    existing.filter((s) => s.url).map((s) => normalizeFeedUrl(s.url!))
+  );
+  const now = Date.now();
+
+  return feeds.flatMap((feed, index) => {
+    const key = normalizeFeedUrl(feed.xmlUrl);
+    if (seen.has(key)) return [];
+    seen.add(key);
+
+    const category = matchSourceCategory(feed.category);
+    return [{
+      source: {
+        id: `custom-${now}-${index}`,
+        type: 'RSS',
+        name: feed.title,
+        url: feed.xmlUrl,
+        enabled: true,
+        fetchCount: 50,
+        fetchTimeRange: '7d',
+        category: category ?? 'news',
+        icon: getSourceIcon('RSS'),
+      },
+      originalCategory: category ? undefined : feed.category,
+    }];
+  });
+}
@@ -0,0 +1,38 @@
+/*
+ *   Copyright (c) 2025
+ *   All rights reserved.
+ */
+
+/**
+ * 标题分词工具
+ * 跨来源去重的标题相似度、兴趣模型和本地检索共用同一套分词，保证看到的词一致
+ */
+
+// 常见虚词（含 "Show HN:" 等前缀词），不参与比较和打分
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'into', 'your', 'you', 'are', 'was', 'were',
+  'how', 'why', 'what', 'when', 'who', 'its', 'our', 'not', 'but', 'can', 'has', 'have', 'new',
+  'about', 'over', 'more', 'than', 'via', 'using', 'use', 'show', 'ask', 'tell', 'launch',
+]);
+
+/**
+ * 标题分词：去掉标点后英文按词（忽略虚词、短词和纯数字），中日韩文本按二元组
+ */
+export function tokenizeTitle(title: string): string[] {
+  const tokens: string[] = [];
+  title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach(word => {
+      if (/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/.test(word)) {
+        for (let i = 0; i < word.length - 1; i++) {
+          tokens.push(word.slice(i, i + 2));
+        }
+      } else if (word.length >= 3 && !STOP_WORDS.has(word) && !/^\d+$/.test(word)) {
+        tokens.push(word);
+      }
+    });
+  return tokens;
+}